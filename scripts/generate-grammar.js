@@ -0,0 +1,26 @@
+// Regenerates the "wasm-api" highlighting rules of the TextMate grammar from builtins.json.
+// Every manifest category with a `scope` becomes one pattern matching the names of its functions.
+// Run with `npm run grammar` after editing the manifest.
+
+const fs = require('fs');
+const path = require('path');
+
+const root = path.join(__dirname, '..');
+const manifest = JSON.parse(fs.readFileSync(path.join(root, 'builtins.json'), 'utf8'));
+const grammarPath = path.join(root, 'syntaxes', 'frscript.tmLanguage.json');
+const grammar = JSON.parse(fs.readFileSync(grammarPath, 'utf8'));
+
+const patterns = [];
+for (const [category, info] of Object.entries(manifest.categories || {})) {
+    if (!info.scope) {
+        continue;
+    }
+    const names = manifest.functions.filter(func => func.category === category).map(func => func.name);
+    if (names.length > 0) {
+        patterns.push({ comment: info.description, name: info.scope, match: `\\b(${names.join('|')})\\b` });
+    }
+}
+
+grammar.repository['wasm-api'] = { patterns };
+fs.writeFileSync(grammarPath, JSON.stringify(grammar, null, 2) + '\n');
+console.log(`Wrote ${patterns.length} builtin patterns to ${path.relative(root, grammarPath)}`);
@@ -0,0 +1,229 @@
+// Per-document analysis shared by every language feature.
+// Parsing and symbol collection happen once per document version instead of once per request.
+
+import * as fs from 'fs';
+import { StructDeclaration } from './ast';
+import { LabelScope, collectLabels } from './labels';
+import { lineAt } from './lexer';
+import { ParseResult, parse } from './parser';
+import { CImportInfo, CLinkInfo, SymbolInfo, collectCImports, collectSymbols } from './symbols';
+import { ScopeTree } from './scopes';
+import { Suppressions, collectSuppressions } from './suppressions';
+import { TypeInference } from './typeInference';
+import { TextLines, textLines } from './utils';
+
+export interface CSymbolInfo {
+    name: string;
+    type: 'function' | 'struct' | 'macro' | 'enum';
+    signature?: string;
+    documentation?: string;
+}
+
+// Minimal view of a text document; satisfied by editor documents and plain objects alike
+export interface AnalyzableDocument {
+    uri: { toString(): string };
+    version: number;
+    getText(): string;
+}
+
+const headerCache = new Map<string, { mtimeMs: number, symbols: CSymbolInfo[] }>();
+
+// Parse C symbols from header files by reading and parsing the actual header.
+// Results are reused until the header's modification time changes.
+export function parseCSymbols(headerPath: string): CSymbolInfo[] {
+    const symbols: CSymbolInfo[] = [];
+
+    let content: string;
+    let mtimeMs: number;
+    try {
+        mtimeMs = fs.statSync(headerPath).mtimeMs;
+        const cached = headerCache.get(headerPath);
+        if (cached && cached.mtimeMs === mtimeMs) {
+            return cached.symbols;
+        }
+        content = fs.readFileSync(headerPath, 'utf-8');
+    } catch {
+        return symbols;
+    }
+
+    // Strip C comments
+    content = content.replace(/\/\*[\s\S]*?\*\//g, '').replace(/\/\/[^\n]*/g, '');
+
+    // Match function declarations: rettype funcname(params);
+    const funcRegex = /^\s*(?:(?:RLAPI|static|inline|extern|__declspec\([^)]*\))\s+)*(\w[\w\s*]*?)\s+(\w+)\s*\(([^)]*)\)\s*;/gm;
+    let match;
+    while ((match = funcRegex.exec(content)) !== null) {
+        const retType = match[1].trim();
+        const name = match[2];
+        const params = match[3].trim();
+        // Skip if it looks like a type definition rather than a function
+        if (['typedef', 'struct', 'enum', 'union'].includes(retType)) { continue; }
+        symbols.push({
+            name,
+            type: 'function',
+            signature: `${retType} ${name}(${params})`
+        });
+    }
+
+    // Match #define MACRO value (simple integer/string macros)
+    const macroRegex = /^\s*#define\s+([A-Z_][A-Z0-9_]*)\s+(\d+|0x[0-9a-fA-F]+|"[^"]*")\s*$/gm;
+    while ((match = macroRegex.exec(content)) !== null) {
+        symbols.push({
+            name: match[1],
+            type: 'macro',
+            signature: match[2]
+        });
+    }
+
+    // Match typedef struct { ... } Name;
+    const structRegex = /typedef\s+struct\s*(?:\w+\s*)?\{[^}]*\}\s*(\w+)\s*;/gs;
+    while ((match = structRegex.exec(content)) !== null) {
+        symbols.push({
+            name: match[1],
+            type: 'struct',
+            signature: `typedef struct ${match[1]}`
+        });
+    }
+
+    // Match typedef enum { ... } Name;
+    const enumRegex = /typedef\s+enum\s*(?:\w+\s*)?\{([^}]*)\}\s*(\w+)\s*;/gs;
+    while ((match = enumRegex.exec(content)) !== null) {
+        symbols.push({
+            name: match[2],
+            type: 'enum',
+            signature: `typedef enum ${match[2]}`
+        });
+    }
+
+    headerCache.set(headerPath, { mtimeMs, symbols });
+    return symbols;
+}
+
+export class DocumentAnalysis {
+    public readonly result: ParseResult;
+    private symbolsCache?: SymbolInfo[];
+    private scopesCache?: ScopeTree;
+    private typeInferenceCache?: TypeInference;
+    private labelsCache?: LabelScope[];
+    private suppressionsCache?: Suppressions;
+    private cImportsCache?: { imports: CImportInfo[], links: CLinkInfo[] };
+    private cSymbolsCache?: CSymbolInfo[];
+    private linesCache?: TextLines;
+    private derived = new Map<string, unknown>();
+
+    constructor(
+        public readonly uri: string,
+        public readonly version: number,
+        public readonly text: string,
+        // Structs declared in other files, for the fields of values of those types
+        private readonly resolveStruct?: (name: string) => StructDeclaration | undefined
+    ) {
+        this.result = parse(text);
+    }
+
+    // Line access for the line-based checks (metrics, Python interop, formatting)
+    get lines(): TextLines {
+        if (!this.linesCache) {
+            this.linesCache = textLines(this.text);
+        }
+        return this.linesCache;
+    }
+
+    // Line and character of an offset, for files that are not open in the editor
+    public positionAt(offset: number): { line: number, character: number } {
+        const { lineStarts } = this.result;
+        const line = lineAt(lineStarts, offset);
+        return { line, character: offset - lineStarts[line] };
+    }
+
+    get symbols(): SymbolInfo[] {
+        if (!this.symbolsCache) {
+            this.symbolsCache = collectSymbols(this.result);
+        }
+        return this.symbolsCache;
+    }
+
+    // Block scopes with every name resolved to its binding
+    get scopes(): ScopeTree {
+        if (!this.scopesCache) {
+            this.scopesCache = new ScopeTree(this.result.program);
+        }
+        return this.scopesCache;
+    }
+
+    // Expression types, with `any` variables narrowed by the assignments reaching each use
+    get typeInference(): TypeInference {
+        if (!this.typeInferenceCache) {
+            this.typeInferenceCache = new TypeInference(this.result.program, this.scopes, this.resolveStruct);
+        }
+        return this.typeInferenceCache;
+    }
+
+    // Labels and gotos per function body
+    get labels(): LabelScope[] {
+        if (!this.labelsCache) {
+            this.labelsCache = collectLabels(this.result.program);
+        }
+        return this.labelsCache;
+    }
+
+    // `// fr-ignore` comments
+    get suppressions(): Suppressions {
+        if (!this.suppressionsCache) {
+            this.suppressionsCache = collectSuppressions(this.result.comments, this.result.lineStarts);
+        }
+        return this.suppressionsCache;
+    }
+
+    get cImports(): { imports: CImportInfo[], links: CLinkInfo[] } {
+        if (!this.cImportsCache) {
+            this.cImportsCache = collectCImports(this.result);
+        }
+        return this.cImportsCache;
+    }
+
+    // Symbols from every header pulled in with c_import
+    get cSymbols(): CSymbolInfo[] {
+        if (!this.cSymbolsCache) {
+            this.cSymbolsCache = [];
+            for (const imp of this.cImports.imports) {
+                this.cSymbolsCache.push(...parseCSymbols(imp.path));
+            }
+        }
+        return this.cSymbolsCache;
+    }
+
+    // Compute a value once for this version, e.g. the diagnostics list
+    public memo<T>(key: string, compute: () => T): T {
+        if (!this.derived.has(key)) {
+            this.derived.set(key, compute());
+        }
+        return this.derived.get(key) as T;
+    }
+}
+
+export class DocumentAnalysisCache {
+    private entries = new Map<string, DocumentAnalysis>();
+
+    constructor(private resolveStruct?: (uri: string, name: string) => StructDeclaration | undefined) {}
+
+    public get(document: AnalyzableDocument): DocumentAnalysis {
+        const key = document.uri.toString();
+        const cached = this.entries.get(key);
+        if (cached && cached.version === document.version) {
+            return cached;
+        }
+
+        const analysis = new DocumentAnalysis(key, document.version, document.getText(), this.resolveStruct && (name => this.resolveStruct!(key, name)));
+        this.entries.set(key, analysis);
+        return analysis;
+    }
+
+    public invalidate(uri: { toString(): string }) {
+        this.entries.delete(uri.toString());
+    }
+
+    public clear() {
+        this.entries.clear();
+    }
+}
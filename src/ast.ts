@@ -0,0 +1,606 @@
+// AST node definitions for Frscript source files.
+// All spans are absolute character offsets into the parsed text.
+
+export interface Span {
+    start: number;
+    end: number;
+}
+
+export interface NodeBase {
+    span: Span;
+}
+
+export interface Program extends NodeBase {
+    kind: 'Program';
+    body: Statement[];
+}
+
+export interface Identifier extends NodeBase {
+    kind: 'Identifier';
+    name: string;
+}
+
+export interface TypeRef extends NodeBase {
+    kind: 'TypeRef';
+    name: string;
+    // Element types of containers: `list[int]`, `dict[str, list[int]]`
+    args?: TypeRef[];
+}
+
+export interface Decorator extends NodeBase {
+    kind: 'Decorator';
+    name: Identifier;
+    args: Expression[];
+}
+
+export interface Parameter extends NodeBase {
+    kind: 'Parameter';
+    name: Identifier;
+    type: TypeRef | null;
+    variadic?: 'args' | 'kwargs';
+    defaultValue?: Expression;
+}
+
+export interface FunctionDeclaration extends NodeBase {
+    kind: 'FunctionDeclaration';
+    name: Identifier;
+    // null when the declaration is missing its return type: `foo() { ... }`
+    returnType: TypeRef | null;
+    params: Parameter[];
+    body: Block | null;
+    decorators: Decorator[];
+    documentation?: string;
+}
+
+export interface StructField extends NodeBase {
+    kind: 'StructField';
+    name: Identifier;
+    type: TypeRef;
+    defaultValue?: Expression;
+}
+
+export interface StructDeclaration extends NodeBase {
+    kind: 'StructDeclaration';
+    name: Identifier;
+    fields: StructField[];
+    documentation?: string;
+}
+
+export interface VariableDeclaration extends NodeBase {
+    kind: 'VariableDeclaration';
+    name: Identifier;
+    type: TypeRef;
+    init: Expression | null;
+    isConst: boolean;
+    // Fixed-size list declarations: `list items[16:int] = ...`
+    capacity?: Expression;
+    elementType?: TypeRef;
+    documentation?: string;
+}
+
+export interface Block extends NodeBase {
+    kind: 'Block';
+    body: Statement[];
+}
+
+export interface ExpressionStatement extends NodeBase {
+    kind: 'ExpressionStatement';
+    expression: Expression;
+}
+
+export interface Assignment extends NodeBase {
+    kind: 'Assignment';
+    target: Expression;
+    operator: string;
+    value: Expression;
+}
+
+export interface IfStatement extends NodeBase {
+    kind: 'IfStatement';
+    condition: Expression;
+    consequent: Block;
+    alternate: IfStatement | Block | null;
+}
+
+export interface WhileStatement extends NodeBase {
+    kind: 'WhileStatement';
+    condition: Expression;
+    body: Block;
+}
+
+export interface ForStatement extends NodeBase {
+    kind: 'ForStatement';
+    variables: Identifier[];
+    variableType: TypeRef | null;
+    iterable: Expression;
+    body: Block;
+}
+
+export interface SwitchCase extends NodeBase {
+    kind: 'SwitchCase';
+    // Empty for `default:`
+    tests: Expression[];
+    isDefault: boolean;
+    body: Statement[];
+}
+
+export interface SwitchStatement extends NodeBase {
+    kind: 'SwitchStatement';
+    discriminant: Expression;
+    cases: SwitchCase[];
+}
+
+export interface ExceptClause extends NodeBase {
+    kind: 'ExceptClause';
+    errorType: Identifier | null;
+    alias: Identifier | null;
+    body: Block;
+}
+
+export interface TryStatement extends NodeBase {
+    kind: 'TryStatement';
+    body: Block;
+    handlers: ExceptClause[];
+}
+
+export interface ReturnStatement extends NodeBase {
+    kind: 'ReturnStatement';
+    argument: Expression | null;
+}
+
+export interface BreakStatement extends NodeBase {
+    kind: 'BreakStatement';
+}
+
+export interface ContinueStatement extends NodeBase {
+    kind: 'ContinueStatement';
+}
+
+export interface RaiseStatement extends NodeBase {
+    kind: 'RaiseStatement';
+    argument: Expression | null;
+}
+
+export interface GotoStatement extends NodeBase {
+    kind: 'GotoStatement';
+    label: Identifier;
+}
+
+export interface LabelStatement extends NodeBase {
+    kind: 'LabelStatement';
+    name: Identifier;
+}
+
+export interface AssertStatement extends NodeBase {
+    kind: 'AssertStatement';
+    args: Expression[];
+}
+
+export interface GlobalStatement extends NodeBase {
+    kind: 'GlobalStatement';
+    names: Identifier[];
+}
+
+export interface PyImport extends NodeBase {
+    kind: 'PyImport';
+    // Dotted module path, e.g. `os.path`
+    module: string;
+    moduleSpan: Span;
+    // Imported member for `from module py_import name`
+    member: Identifier | null;
+    alias: Identifier | null;
+}
+
+export interface CImport extends NodeBase {
+    kind: 'CImport';
+    path: string;
+}
+
+export interface CLink extends NodeBase {
+    kind: 'CLink';
+    libs: string;
+}
+
+export interface Directive extends NodeBase {
+    kind: 'Directive';
+    name: string;
+    value: string;
+}
+
+export interface BytecodeBlock extends NodeBase {
+    kind: 'BytecodeBlock';
+    text: string;
+}
+
+export type Statement =
+    | FunctionDeclaration
+    | StructDeclaration
+    | VariableDeclaration
+    | Block
+    | ExpressionStatement
+    | Assignment
+    | IfStatement
+    | WhileStatement
+    | ForStatement
+    | SwitchStatement
+    | TryStatement
+    | ReturnStatement
+    | BreakStatement
+    | ContinueStatement
+    | RaiseStatement
+    | GotoStatement
+    | LabelStatement
+    | AssertStatement
+    | GlobalStatement
+    | PyImport
+    | CImport
+    | CLink
+    | Directive
+    | BytecodeBlock;
+
+export interface IntLiteral extends NodeBase {
+    kind: 'IntLiteral';
+    value: number;
+    raw: string;
+}
+
+export interface FloatLiteral extends NodeBase {
+    kind: 'FloatLiteral';
+    value: number;
+    raw: string;
+}
+
+export interface StringLiteral extends NodeBase {
+    kind: 'StringLiteral';
+    value: string;
+    raw: string;
+}
+
+export interface BytesLiteral extends NodeBase {
+    kind: 'BytesLiteral';
+    value: string;
+    raw: string;
+}
+
+export interface BoolLiteral extends NodeBase {
+    kind: 'BoolLiteral';
+    value: boolean;
+}
+
+export interface NullLiteral extends NodeBase {
+    kind: 'NullLiteral';
+}
+
+export interface FStringInterpolation extends NodeBase {
+    kind: 'FStringInterpolation';
+    expression: Expression | null;
+}
+
+export interface FString extends NodeBase {
+    kind: 'FString';
+    raw: string;
+    interpolations: FStringInterpolation[];
+}
+
+export interface ListLiteral extends NodeBase {
+    kind: 'ListLiteral';
+    elements: Expression[];
+}
+
+export interface DictEntry extends NodeBase {
+    kind: 'DictEntry';
+    key: Expression;
+    value: Expression;
+}
+
+export interface DictLiteral extends NodeBase {
+    kind: 'DictLiteral';
+    entries: DictEntry[];
+}
+
+export interface SetLiteral extends NodeBase {
+    kind: 'SetLiteral';
+    elements: Expression[];
+}
+
+export interface KeywordArgument extends NodeBase {
+    kind: 'KeywordArgument';
+    name: Identifier;
+    value: Expression;
+}
+
+export interface CallExpression extends NodeBase {
+    kind: 'CallExpression';
+    callee: Expression;
+    args: Expression[];
+    // Span of the parenthesised argument list, including both parentheses
+    argsSpan: Span;
+}
+
+export interface MemberExpression extends NodeBase {
+    kind: 'MemberExpression';
+    object: Expression;
+    property: Identifier;
+}
+
+export interface SliceExpression extends NodeBase {
+    kind: 'SliceExpression';
+    lower: Expression | null;
+    upper: Expression | null;
+    step: Expression | null;
+}
+
+export interface IndexExpression extends NodeBase {
+    kind: 'IndexExpression';
+    object: Expression;
+    index: Expression;
+}
+
+export interface BinaryExpression extends NodeBase {
+    kind: 'BinaryExpression';
+    operator: string;
+    left: Expression;
+    right: Expression;
+}
+
+export interface UnaryExpression extends NodeBase {
+    kind: 'UnaryExpression';
+    operator: string;
+    argument: Expression;
+}
+
+export interface TernaryExpression extends NodeBase {
+    kind: 'TernaryExpression';
+    test: Expression;
+    consequent: Expression;
+    alternate: Expression;
+}
+
+export interface RangeExpression extends NodeBase {
+    kind: 'RangeExpression';
+    start: Expression;
+    end: Expression;
+}
+
+export interface ParenthesizedExpression extends NodeBase {
+    kind: 'ParenthesizedExpression';
+    expression: Expression;
+}
+
+export interface ErrorExpression extends NodeBase {
+    kind: 'ErrorExpression';
+}
+
+export type Expression =
+    | Identifier
+    | IntLiteral
+    | FloatLiteral
+    | StringLiteral
+    | BytesLiteral
+    | BoolLiteral
+    | NullLiteral
+    | FString
+    | ListLiteral
+    | DictLiteral
+    | SetLiteral
+    | KeywordArgument
+    | CallExpression
+    | MemberExpression
+    | IndexExpression
+    | SliceExpression
+    | BinaryExpression
+    | UnaryExpression
+    | TernaryExpression
+    | RangeExpression
+    | ParenthesizedExpression
+    | ErrorExpression;
+
+export type Node =
+    | Program
+    | Statement
+    | Expression
+    | TypeRef
+    | Decorator
+    | Parameter
+    | StructField
+    | SwitchCase
+    | ExceptClause
+    | FStringInterpolation
+    | DictEntry;
+
+// Invoke the callback for every direct child of a node
+export function forEachChild(node: Node, callback: (child: Node) => void): void {
+    const visit = (child: Node | null | undefined) => {
+        if (child) {
+            callback(child);
+        }
+    };
+    const visitAll = (children: Node[]) => children.forEach(callback);
+
+    switch (node.kind) {
+        case 'Program':
+        case 'Block':
+            visitAll(node.body);
+            break;
+        case 'Decorator':
+            visit(node.name);
+            visitAll(node.args);
+            break;
+        case 'TypeRef':
+            visitAll(node.args ?? []);
+            break;
+        case 'Parameter':
+            visit(node.type);
+            visit(node.name);
+            visit(node.defaultValue);
+            break;
+        case 'FunctionDeclaration':
+            visitAll(node.decorators);
+            visit(node.returnType);
+            visit(node.name);
+            visitAll(node.params);
+            visit(node.body);
+            break;
+        case 'StructField':
+            visit(node.type);
+            visit(node.name);
+            visit(node.defaultValue);
+            break;
+        case 'StructDeclaration':
+            visit(node.name);
+            visitAll(node.fields);
+            break;
+        case 'VariableDeclaration':
+            visit(node.type);
+            visit(node.name);
+            visit(node.capacity);
+            visit(node.elementType);
+            visit(node.init);
+            break;
+        case 'ExpressionStatement':
+            visit(node.expression);
+            break;
+        case 'Assignment':
+            visit(node.target);
+            visit(node.value);
+            break;
+        case 'IfStatement':
+            visit(node.condition);
+            visit(node.consequent);
+            visit(node.alternate);
+            break;
+        case 'WhileStatement':
+            visit(node.condition);
+            visit(node.body);
+            break;
+        case 'ForStatement':
+            visit(node.variableType);
+            visitAll(node.variables);
+            visit(node.iterable);
+            visit(node.body);
+            break;
+        case 'SwitchStatement':
+            visit(node.discriminant);
+            visitAll(node.cases);
+            break;
+        case 'SwitchCase':
+            visitAll(node.tests);
+            visitAll(node.body);
+            break;
+        case 'TryStatement':
+            visit(node.body);
+            visitAll(node.handlers);
+            break;
+        case 'ExceptClause':
+            visit(node.errorType);
+            visit(node.alias);
+            visit(node.body);
+            break;
+        case 'ReturnStatement':
+        case 'RaiseStatement':
+            visit(node.argument);
+            break;
+        case 'GotoStatement':
+            visit(node.label);
+            break;
+        case 'LabelStatement':
+            visit(node.name);
+            break;
+        case 'AssertStatement':
+            visitAll(node.args);
+            break;
+        case 'GlobalStatement':
+            visitAll(node.names);
+            break;
+        case 'PyImport':
+            visit(node.member);
+            visit(node.alias);
+            break;
+        case 'FString':
+            visitAll(node.interpolations);
+            break;
+        case 'FStringInterpolation':
+            visit(node.expression);
+            break;
+        case 'ListLiteral':
+        case 'SetLiteral':
+            visitAll(node.elements);
+            break;
+        case 'DictLiteral':
+            visitAll(node.entries);
+            break;
+        case 'DictEntry':
+            visit(node.key);
+            visit(node.value);
+            break;
+        case 'KeywordArgument':
+            visit(node.name);
+            visit(node.value);
+            break;
+        case 'CallExpression':
+            visit(node.callee);
+            visitAll(node.args);
+            break;
+        case 'MemberExpression':
+            visit(node.object);
+            visit(node.property);
+            break;
+        case 'IndexExpression':
+            visit(node.object);
+            visit(node.index);
+            break;
+        case 'SliceExpression':
+            visit(node.lower);
+            visit(node.upper);
+            visit(node.step);
+            break;
+        case 'BinaryExpression':
+            visit(node.left);
+            visit(node.right);
+            break;
+        case 'UnaryExpression':
+            visit(node.argument);
+            break;
+        case 'TernaryExpression':
+            visit(node.test);
+            visit(node.consequent);
+            visit(node.alternate);
+            break;
+        case 'RangeExpression':
+            visit(node.start);
+            visit(node.end);
+            break;
+        case 'ParenthesizedExpression':
+            visit(node.expression);
+            break;
+        default:
+            break;
+    }
+}
+
+// Depth-first walk over a subtree. Returning false from the callback skips the node's children.
+export function walk(node: Node, callback: (node: Node, parent: Node | null) => boolean | void, parent: Node | null = null): void {
+    if (callback(node, parent) === false) {
+        return;
+    }
+    forEachChild(node, child => walk(child, callback, node));
+}
+
+// Returns the chain of nodes containing the offset, outermost first
+export function findNodePath(root: Node, offset: number): Node[] {
+    const path: Node[] = [];
+    let current: Node | null = root;
+
+    while (current) {
+        path.push(current);
+        let next: Node | null = null;
+        forEachChild(current, child => {
+            if (!next && offset >= child.span.start && offset <= child.span.end) {
+                next = child;
+            }
+        });
+        current = next;
+    }
+
+    return path;
+}
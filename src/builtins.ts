@@ -0,0 +1,155 @@
+// Builtin functions of the Frscript runtime, read from the versioned builtins.json manifest.
+// The manifest bundled with the extension is used until a newer one is found in the installed `fr` package.
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Manifest format understood by this version of the tooling
+export const MANIFEST_VERSION = 1;
+
+export interface BuiltinParam {
+    name: string;
+    type: string;
+    default?: string;
+    variadic?: boolean;
+}
+
+export interface BuiltinDeprecation {
+    message?: string;
+    replacement?: string;
+}
+
+export interface BuiltinFunction {
+    name: string;
+    params: BuiltinParam[];
+    returns: string;
+    doc?: string;
+    category?: string;
+    target?: 'native' | 'wasm';
+    receiver?: string;
+    insertText?: string;
+    detail?: string;
+    deprecated?: BuiltinDeprecation;
+}
+
+export interface BuiltinConstant {
+    name: string;
+    type: string;
+    doc?: string;
+    category?: string;
+}
+
+export interface BuiltinManifest {
+    version: number;
+    runtime?: string;
+    categories?: Record<string, { description?: string, scope?: string }>;
+    constants?: BuiltinConstant[];
+    functions: BuiltinFunction[];
+}
+
+export interface FunctionInfo {
+    name: string;
+    signature: string;
+    description: string;
+    insertText?: string;
+    detail?: string;
+    deprecated?: boolean;
+    message?: string;
+    replacement?: string;
+    params: BuiltinParam[];
+    returnType: string;
+    target?: 'native' | 'wasm';
+    receiver?: string;
+}
+
+// Refilled in place by useBuiltinManifest, so importers always see the active manifest
+export const builtinFunctions: FunctionInfo[] = [];
+export const builtinConstants: BuiltinConstant[] = [];
+
+function formatParam(param: BuiltinParam): string {
+    const name = param.variadic ? '...' + param.name : param.name;
+    return `${name}: ${param.type}` + (param.default !== undefined ? ` = ${param.default}` : '');
+}
+
+export function formatParams(func: BuiltinFunction | FunctionInfo): string[] {
+    return func.params.map(formatParam);
+}
+
+// Snippet with a placeholder per required parameter
+function defaultInsertText(func: BuiltinFunction): string {
+    const required = func.params.filter(param => param.default === undefined && !param.variadic);
+    return `${func.name}(${required.map((_, index) => `$${index + 1}`).join(', ')})$0`;
+}
+
+function toFunctionInfo(func: BuiltinFunction): FunctionInfo {
+    const returns = func.returns === 'void' ? '' : ` -> ${func.returns}`;
+    return {
+        name: func.name,
+        signature: `${func.name}(${func.params.map(formatParam).join(', ')})${returns}`,
+        description: func.doc || '',
+        insertText: func.insertText || defaultInsertText(func),
+        detail: func.detail,
+        deprecated: !!func.deprecated,
+        message: func.deprecated?.message,
+        replacement: func.deprecated?.replacement,
+        params: func.params,
+        returnType: func.returns,
+        target: func.target,
+        receiver: func.receiver
+    };
+}
+
+/** Make a manifest the source of every builtin lookup. */
+export function useBuiltinManifest(manifest: BuiltinManifest) {
+    builtinFunctions.splice(0, builtinFunctions.length, ...manifest.functions.map(toFunctionInfo));
+    builtinConstants.splice(0, builtinConstants.length, ...(manifest.constants || []));
+}
+
+/** Read a manifest file, ignoring it when missing, malformed or of another format version. */
+export function readBuiltinManifest(file: string): BuiltinManifest | undefined {
+    try {
+        const manifest = JSON.parse(fs.readFileSync(file, 'utf8')) as BuiltinManifest;
+        if (manifest.version !== MANIFEST_VERSION || !Array.isArray(manifest.functions)) {
+            return undefined;
+        }
+        return manifest;
+    } catch {
+        return undefined;
+    }
+}
+
+// The manifest shipped next to the compiled sources
+const bundledManifestPath = path.join(__dirname, '..', 'builtins.json');
+
+const bundled = readBuiltinManifest(bundledManifestPath);
+if (bundled) {
+    useBuiltinManifest(bundled);
+}
+
+export function builtinFunction(name: string): FunctionInfo | undefined {
+    return builtinFunctions.find(func => func.name === name);
+}
+
+/** A builtin that can be called with method syntax on a value of the given type. */
+export function builtinMethod(type: string, name: string): FunctionInfo | undefined {
+    return builtinFunctions.find(func => func.name === name && func.receiver === type);
+}
+
+export function builtinConstant(name: string): BuiltinConstant | undefined {
+    return builtinConstants.find(constant => constant.name === name);
+}
+
+export function builtinReturnType(name: string): string | undefined {
+    return builtinFunction(name)?.returnType;
+}
+
+/** Markdown note for builtins limited to one compilation target. */
+export function targetNote(func: FunctionInfo): string | undefined {
+    if (func.target === 'wasm') {
+        return '_Only available when compiling to WebAssembly_';
+    }
+    if (func.target === 'native') {
+        return '_Not available when compiling to WebAssembly_';
+    }
+    return undefined;
+}
@@ -1,5 +1,5 @@
 import * as vscode from 'vscode';
-import { PythonInteropProvider, createPythonImportCodeAction } from './pythonInterop';
+import { PythonInteropProvider } from './pythonInterop';
 
 export interface SymbolInfo {
     name: string;
@@ -10,6 +10,11 @@ export interface SymbolInfo {
     returnType?: string;
 }
 
+// What the server attached to a diagnostic for its quick fixes, kept by the language client as `data`
+function diagnosticData<T>(diagnostic: vscode.Diagnostic): T | undefined {
+    return (diagnostic as vscode.Diagnostic & { data?: T }).data;
+}
+
 export class EnhancedCodeActionProvider implements vscode.CodeActionProvider {
     constructor(private pythonProvider: PythonInteropProvider) {}
 
@@ -54,7 +59,7 @@ export class EnhancedCodeActionProvider implements vscode.CodeActionProvider {
         }
 
         // Quick fix for missing return type
-        if (diagnostic.message.includes('Missing return type')) {
+        if (diagnostic.code === 'missing-return-type') {
             const line = document.lineAt(diagnostic.range.start.line);
             const { text } = line;
             const funcMatch = text.match(/^(\w+)\s*\(/);
@@ -81,8 +86,86 @@ export class EnhancedCodeActionProvider implements vscode.CodeActionProvider {
             }
         }
 
-        // Quick fix for unused variables/imports
-        if (diagnostic.tags?.includes(vscode.DiagnosticTag.Unnecessary)) {
+        // Quick fixes making an int/float conversion explicit
+        if (diagnostic.code === 'implicit-cast') {
+            const target = diagnosticData<{ target?: string }>(diagnostic)?.target;
+            const expression = document.getText(diagnostic.range);
+            const conversions = target === 'int' ? ['int', 'round'] : target === 'float' ? ['float'] : [];
+            conversions.forEach((conversion, index) => {
+                const fix = new vscode.CodeAction(`Convert with ${conversion}()`, vscode.CodeActionKind.QuickFix);
+                fix.edit = new vscode.WorkspaceEdit();
+                fix.edit.replace(document.uri, diagnostic.range, `${conversion}(${expression})`);
+                fix.diagnostics = [diagnostic];
+                fix.isPreferred = index === 0;
+                actions.push(fix);
+            });
+        }
+
+        // Quick fixes for assignments to constants
+        if (diagnostic.code === 'const-assignment') {
+            actions.push(...createConstAssignmentFixes(document, diagnostic));
+        }
+
+        // Quick fix for globals that are never reassigned
+        if (diagnostic.code === 'prefer-const') {
+            const line = document.lineAt(diagnostic.range.start.line);
+            const fix = new vscode.CodeAction('Declare as const', vscode.CodeActionKind.QuickFix);
+            fix.edit = new vscode.WorkspaceEdit();
+            fix.edit.insert(document.uri, new vscode.Position(line.lineNumber, line.firstNonWhitespaceCharacterIndex), 'const ');
+            fix.diagnostics = [diagnostic];
+            fix.isPreferred = true;
+            actions.push(fix);
+        }
+
+        // Call the replacement of a deprecated function instead
+        if (diagnostic.code === 'deprecated') {
+            const replacement = diagnosticData<{ replacement?: string }>(diagnostic)?.replacement;
+            if (replacement) {
+                const fix = new vscode.CodeAction(`Replace with '${replacement}'`, vscode.CodeActionKind.QuickFix);
+                fix.edit = new vscode.WorkspaceEdit();
+                fix.edit.replace(document.uri, diagnostic.range, replacement);
+                fix.diagnostics = [diagnostic];
+                fix.isPreferred = true;
+                actions.push(fix);
+            }
+        }
+
+        // Convert between bytes and str with the call the server chose
+        if (diagnostic.code === 'bytes-str-mismatch') {
+            const conversion = diagnosticData<{ conversion?: string }>(diagnostic)?.conversion;
+            if (conversion) {
+                const text = document.getText(diagnostic.range);
+                // Calls, names, members and literals take the method directly; anything else is wrapped
+                const simple = /^[\w.]+(\([^()]*\)|\[[^\[\]]*\])?$/.test(text) || /^[bf]?(".*"|'.*')$/s.test(text);
+                const fix = new vscode.CodeAction(`Convert with ${conversion}`, vscode.CodeActionKind.QuickFix);
+                fix.edit = new vscode.WorkspaceEdit();
+                fix.edit.replace(document.uri, diagnostic.range, (simple ? text : `(${text})`) + conversion);
+                fix.diagnostics = [diagnostic];
+                fix.isPreferred = true;
+                actions.push(fix);
+            }
+        }
+
+        // Quick fix for parameters that are unused on purpose
+        if (diagnostic.code === 'unused-parameter') {
+            const name = document.getText(diagnostic.range);
+            const fix = new vscode.CodeAction(`Rename to '_${name}'`, vscode.CodeActionKind.QuickFix);
+            fix.edit = new vscode.WorkspaceEdit();
+            fix.edit.insert(document.uri, diagnostic.range.start, '_');
+            fix.diagnostics = [diagnostic];
+            fix.isPreferred = true;
+            actions.push(fix);
+        }
+
+        // Suppression comments for any coded diagnostic
+        if (typeof diagnostic.code === 'string' && diagnostic.code !== 'syntax-error' && diagnostic.code !== 'unknown-suppression') {
+            actions.push(...createSuppressionFixes(document, diagnostic, diagnostic.code));
+        }
+
+        // Quick fix for unused variables/imports; an unused parameter's line is the function header
+        if (diagnostic.code === 'unreachable-code') {
+            actions.push(createUnreachableCodeFix(document, diagnostic));
+        } else if (diagnostic.tags?.includes(vscode.DiagnosticTag.Unnecessary) && diagnostic.code !== 'unused-parameter') {
             const fix = new vscode.CodeAction('Remove unused code', vscode.CodeActionKind.QuickFix);
             fix.edit = new vscode.WorkspaceEdit();
             
@@ -335,3 +418,137 @@ export function createAddTypeAnnotationAction(
 
     return action;
 }
+
+export function createPythonImportCodeAction(
+    document: vscode.TextDocument,
+    functionName: string,
+    moduleName: string
+): vscode.CodeAction {
+    const action = new vscode.CodeAction(
+        `Import ${moduleName} for ${functionName}`,
+        vscode.CodeActionKind.QuickFix
+    );
+
+    const edit = new vscode.WorkspaceEdit();
+    
+    // Find the best place to insert the import (after other imports or at the top)
+    let insertLine = 0;
+    for (let i = 0; i < document.lineCount; i++) {
+        const line = document.lineAt(i).text.trim();
+        if (line.startsWith('py_import') || line.startsWith('from')) {
+            insertLine = i + 1;
+        } else if (line && !line.startsWith('//')) {
+            break;
+        }
+    }
+
+    const insertPosition = new vscode.Position(insertLine, 0);
+    const importStatement = `py_import ${moduleName}\n`;
+    
+    edit.insert(document.uri, insertPosition, importStatement);
+    action.edit = edit;
+
+    return action;
+}
+
+// Delete an unreachable run, which can span several lines; whole lines go when nothing else is on them
+export function createUnreachableCodeFix(
+    document: vscode.TextDocument,
+    diagnostic: vscode.Diagnostic
+): vscode.CodeAction {
+    const { start, end } = diagnostic.range;
+    const before = document.lineAt(start.line).text.substring(0, start.character);
+    const after = document.lineAt(end.line).text.substring(end.character);
+    const range = !before.trim() && !after.trim()
+        ? new vscode.Range(start.line, 0, end.line + 1, 0)
+        : diagnostic.range;
+
+    const fix = new vscode.CodeAction('Remove unreachable code', vscode.CodeActionKind.QuickFix);
+    fix.edit = new vscode.WorkspaceEdit();
+    fix.edit.delete(document.uri, range);
+    fix.diagnostics = [diagnostic];
+    return fix;
+}
+
+// Fixes for `X = ...` where X is const: drop the `const`, or assign to a new variable instead
+export function createConstAssignmentFixes(
+    document: vscode.TextDocument,
+    diagnostic: vscode.Diagnostic
+): vscode.CodeAction[] {
+    const actions: vscode.CodeAction[] = [];
+    const name = document.getText(diagnostic.range);
+    const declaration = diagnostic.relatedInformation?.[0]?.location;
+    if (!declaration || declaration.uri.toString() !== document.uri.toString()) {
+        return actions;
+    }
+    const declarationLine = document.lineAt(declaration.range.start.line).text;
+    const constMatch = declarationLine.substring(0, declaration.range.start.character).match(/\bconst\s+(.+?)\s*$/);
+    if (!constMatch || constMatch.index === undefined) {
+        return actions;
+    }
+
+    const removeConst = new vscode.CodeAction(`Remove 'const' from '${name}'`, vscode.CodeActionKind.QuickFix);
+    removeConst.edit = new vscode.WorkspaceEdit();
+    removeConst.edit.delete(document.uri, new vscode.Range(
+        declaration.range.start.line, constMatch.index,
+        declaration.range.start.line, constMatch.index + constMatch[0].length - constMatch[1].length
+    ));
+    removeConst.diagnostics = [diagnostic];
+    actions.push(removeConst);
+
+    // `X = v` becomes `int X2 = v`, and `X += v` becomes `int X2 = X + v`
+    const line = document.lineAt(diagnostic.range.start.line);
+    const assignment = line.text.substring(diagnostic.range.end.character).match(/^\s*([-+*/%]?)=\s*(.*?)\s*$/);
+    if (assignment) {
+        const words = new Set(document.getText().match(/\w+/g));
+        let suffix = 2;
+        while (words.has(`${name}${suffix}`)) {
+            suffix++;
+        }
+        const [, operator, value] = assignment;
+        const operand = /^[\w.]+$/.test(value) ? value : `(${value})`;
+        const newValue = operator ? `${name} ${operator} ${operand}` : value;
+
+        const introduce = new vscode.CodeAction(`Assign to a new variable '${name}${suffix}'`, vscode.CodeActionKind.QuickFix);
+        introduce.edit = new vscode.WorkspaceEdit();
+        introduce.edit.replace(
+            document.uri,
+            new vscode.Range(diagnostic.range.start, line.range.end),
+            `${constMatch[1]} ${name}${suffix} = ${newValue}`
+        );
+        introduce.diagnostics = [diagnostic];
+        actions.push(introduce);
+    }
+
+    return actions;
+}
+
+// Insert or extend `// fr-ignore-next-line[...]` above the line, or `// fr-ignore-file[...]` at the top
+export function createSuppressionFixes(
+    document: vscode.TextDocument,
+    diagnostic: vscode.Diagnostic,
+    code: string
+): vscode.CodeAction[] {
+    const suppress = (title: string, line: number, scope: string, above: boolean) => {
+        const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+        action.edit = new vscode.WorkspaceEdit();
+        // The comment above the line, or the file-level comment on the first line
+        const existing = above ? (line > 0 ? document.lineAt(line - 1) : undefined) : document.lineAt(0);
+        const match = existing?.text.match(new RegExp(`^(\\s*//\\s*fr-ignore${scope}\\[)([^\\]]*)\\]`));
+        if (existing && match) {
+            // Add the code to the existing comment
+            const end = new vscode.Position(existing.lineNumber, match[0].length - 1);
+            action.edit.insert(document.uri, end, match[2].trim() ? `, ${code}` : code);
+        } else {
+            const indent = above ? document.lineAt(line).text.match(/^\s*/)![0] : '';
+            action.edit.insert(document.uri, new vscode.Position(line, 0), `${indent}// fr-ignore${scope}[${code}]\n`);
+        }
+        action.diagnostics = [diagnostic];
+        return action;
+    };
+
+    return [
+        suppress(`Ignore '${code}' on this line`, diagnostic.range.start.line, '-next-line', true),
+        suppress(`Ignore '${code}' in this file`, 0, '-file', false)
+    ];
+}
@@ -0,0 +1,413 @@
+// Control-flow graphs of function bodies, one node per statement.
+// Used for missing returns, unreachable code, reads of unassigned variables and loops that never end.
+
+import { Diagnostic, DiagnosticSeverity, DiagnosticTag } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Expression, FunctionDeclaration, Node, Span, Statement, SwitchStatement, WhileStatement, walk } from './ast';
+import { DocumentAnalysis } from './analysisCache';
+import { Binding, ScopeTree } from './scopes';
+import { typeRefText } from './symbols';
+import { spanToRange } from './utils';
+
+export interface FlowNode {
+    // null for the entry and exit nodes
+    statement: Statement | null;
+    successors: FlowNode[];
+    predecessors: FlowNode[];
+}
+
+interface BuildContext {
+    // Break statements of the innermost loop or switch
+    breaks: FlowNode[] | null;
+    continueTarget: FlowNode | null;
+    // Statements of enclosing try blocks, each of which may jump to the except clauses
+    tryNodes: FlowNode[][];
+}
+
+// `while true`, `while 1` and parenthesized forms
+function isAlwaysTrue(expr: Expression): boolean {
+    switch (expr.kind) {
+        case 'BoolLiteral':
+            return expr.value;
+        case 'IntLiteral':
+            return expr.value !== 0;
+        case 'ParenthesizedExpression':
+            return isAlwaysTrue(expr.expression);
+        default:
+            return false;
+    }
+}
+
+/** Whether some arm of a switch always matches: a default, or both `true` and `false`. */
+export function coversAllCases(statement: SwitchStatement): boolean {
+    const tests = statement.cases.flatMap(arm => arm.tests);
+    const covers = (value: boolean) => tests.some(test => test.kind === 'BoolLiteral' && test.value === value);
+    return statement.cases.some(arm => arm.isDefault) || (covers(true) && covers(false));
+}
+
+// Expressions a statement evaluates itself, as opposed to those of nested statements
+function ownExpressions(statement: Statement): Node[] {
+    switch (statement.kind) {
+        case 'ExpressionStatement':
+            return [statement.expression];
+        case 'VariableDeclaration':
+            return [statement.capacity, statement.init].filter((e): e is Expression => !!e);
+        case 'Assignment':
+            // A plain assignment writes its target name without reading it
+            return statement.target.kind === 'Identifier' && statement.operator === '='
+                ? [statement.value]
+                : [statement.target, statement.value];
+        case 'IfStatement':
+        case 'WhileStatement':
+            return [statement.condition];
+        case 'ForStatement':
+            return [statement.iterable];
+        case 'SwitchStatement':
+            return [statement.discriminant, ...statement.cases.flatMap(c => c.tests)];
+        case 'ReturnStatement':
+        case 'RaiseStatement':
+            return statement.argument ? [statement.argument] : [];
+        case 'AssertStatement':
+            return statement.args;
+        default:
+            return [];
+    }
+}
+
+// Statement lists directly nested in a statement
+function childLists(statement: Statement): Statement[][] {
+    switch (statement.kind) {
+        case 'Block':
+            return [statement.body];
+        case 'IfStatement':
+            return statement.alternate ? [statement.consequent.body, [statement.alternate]] : [statement.consequent.body];
+        case 'WhileStatement':
+        case 'ForStatement':
+            return [statement.body.body];
+        case 'SwitchStatement':
+            return statement.cases.map(c => c.body);
+        case 'TryStatement':
+            return [statement.body.body, ...statement.handlers.map(handler => handler.body.body)];
+        default:
+            return [];
+    }
+}
+
+export class ControlFlowGraph {
+    public readonly entry: FlowNode = { statement: null, successors: [], predecessors: [] };
+    public readonly exit: FlowNode = { statement: null, successors: [], predecessors: [] };
+    public readonly nodes: FlowNode[] = [];
+    // Nodes whose end falls off the end of the body
+    public readonly fallThrough: FlowNode[];
+    // `while true` loops without a break
+    public readonly unbrokenLoops: WhileStatement[] = [];
+    private byStatement = new Map<Statement, FlowNode>();
+    private labels = new Map<string, FlowNode>();
+    private gotos: { node: FlowNode, label: string }[] = [];
+    private reachable = new Set<FlowNode>();
+
+    constructor(public readonly body: Statement[]) {
+        this.fallThrough = this.buildList(body, [this.entry], { breaks: null, continueTarget: null, tryNodes: [] });
+        this.fallThrough.forEach(node => this.connect(node, this.exit));
+        // Jumps to unknown labels leave the function
+        this.gotos.forEach(({ node, label }) => this.connect(node, this.labels.get(label) ?? this.exit));
+
+        const pending = [this.entry];
+        while (pending.length > 0) {
+            const node = pending.pop()!;
+            if (!this.reachable.has(node)) {
+                this.reachable.add(node);
+                pending.push(...node.successors);
+            }
+        }
+    }
+
+    public nodeOf(statement: Statement): FlowNode | undefined {
+        return this.byStatement.get(statement);
+    }
+
+    public isReachable(node: FlowNode | Statement | undefined): boolean {
+        const flowNode = node && 'successors' in node ? node : node && this.byStatement.get(node as Statement);
+        return !!flowNode && this.reachable.has(flowNode);
+    }
+
+    /** Whether control can reach the end of the body without a return, raise or endless loop. */
+    public get canFallThrough(): boolean {
+        return this.fallThrough.some(node => this.reachable.has(node));
+    }
+
+    /** Runs of statements no path reaches, reported once per run. */
+    public unreachableRuns(): Span[] {
+        const runs: Span[] = [];
+        const visitList = (list: Statement[]) => {
+            let run: Span | null = null;
+            for (const statement of list) {
+                if (this.isReachable(statement)) {
+                    run = null;
+                    childLists(statement).forEach(visitList);
+                } else if (run) {
+                    run.end = statement.span.end;
+                } else {
+                    run = { start: statement.span.start, end: statement.span.end };
+                    runs.push(run);
+                }
+            }
+        };
+        visitList(this.body);
+        return runs;
+    }
+
+    private connect(from: FlowNode, to: FlowNode) {
+        from.successors.push(to);
+        to.predecessors.push(from);
+    }
+
+    private add(statement: Statement, predecessors: FlowNode[], context: BuildContext): FlowNode {
+        const node: FlowNode = { statement, successors: [], predecessors: [] };
+        this.nodes.push(node);
+        this.byStatement.set(statement, node);
+        predecessors.forEach(predecessor => this.connect(predecessor, node));
+        context.tryNodes.forEach(nodes => nodes.push(node));
+        return node;
+    }
+
+    // Builds a statement list and returns the nodes that continue to the next statement
+    private buildList(statements: Statement[], predecessors: FlowNode[], context: BuildContext): FlowNode[] {
+        for (const statement of statements) {
+            predecessors = this.buildStatement(statement, predecessors, context);
+        }
+        return predecessors;
+    }
+
+    private buildStatement(statement: Statement, predecessors: FlowNode[], context: BuildContext): FlowNode[] {
+        const node = this.add(statement, predecessors, context);
+        switch (statement.kind) {
+            case 'ReturnStatement':
+            case 'RaiseStatement':
+                this.connect(node, this.exit);
+                return [];
+            case 'BreakStatement':
+                context.breaks?.push(node);
+                return [];
+            case 'ContinueStatement':
+                if (context.continueTarget) {
+                    this.connect(node, context.continueTarget);
+                }
+                return [];
+            case 'GotoStatement':
+                this.gotos.push({ node, label: statement.label.name });
+                return [];
+            case 'LabelStatement':
+                this.labels.set(statement.name.name, node);
+                return [node];
+            case 'Block':
+                return this.buildList(statement.body, [node], context);
+            case 'IfStatement': {
+                const consequent = this.buildList(statement.consequent.body, [node], context);
+                const alternate = statement.alternate ? this.buildStatement(statement.alternate, [node], context) : [node];
+                return [...consequent, ...alternate];
+            }
+            case 'WhileStatement':
+            case 'ForStatement': {
+                const breaks: FlowNode[] = [];
+                const body = this.buildList(statement.body.body, [node], { ...context, breaks, continueTarget: node });
+                body.forEach(end => this.connect(end, node));
+                if (statement.kind === 'WhileStatement' && isAlwaysTrue(statement.condition)) {
+                    if (breaks.length === 0) {
+                        this.unbrokenLoops.push(statement);
+                    }
+                    return breaks;
+                }
+                return [node, ...breaks];
+            }
+            case 'SwitchStatement': {
+                // Arms fall through to the next one unless they end with a jump
+                const breaks: FlowNode[] = [];
+                let fallThrough: FlowNode[] = [];
+                for (const arm of statement.cases) {
+                    fallThrough = this.buildList(arm.body, [node, ...fallThrough], { ...context, breaks });
+                }
+                return [...fallThrough, ...breaks, ...(coversAllCases(statement) ? [] : [node])];
+            }
+            case 'TryStatement': {
+                const tryNodes: FlowNode[] = [node];
+                const body = this.buildList(statement.body.body, [node], { ...context, tryNodes: [...context.tryNodes, tryNodes] });
+                const handlers = statement.handlers.flatMap(handler => this.buildList(handler.body.body, tryNodes, context));
+                return [...body, ...handlers];
+            }
+            default:
+                return [node];
+        }
+    }
+}
+
+// Variables declared without a value, read on some path before any assignment
+function unassignedReads(graph: ControlFlowGraph, scopes: ScopeTree): { identifier: Node & { span: Span }, binding: Binding, definitely: boolean }[] {
+    const tracked = new Set(scopes.bindings.filter(binding =>
+        binding.kind === 'variable' && binding.node.kind === 'VariableDeclaration' && !binding.node.init && !binding.node.capacity &&
+        graph.body.some(statement => statement.span.start <= binding.node.span.start && binding.node.span.end <= statement.span.end)));
+    if (tracked.size === 0) {
+        return [];
+    }
+
+    const writes = (node: FlowNode): Binding[] => {
+        const statement = node.statement;
+        if (statement?.kind === 'Assignment' && statement.target.kind === 'Identifier') {
+            const binding = scopes.bindingOf(statement.target);
+            return binding && tracked.has(binding) ? [binding] : [];
+        }
+        return [];
+    };
+    // A declaration without a value makes the variable unassigned again, e.g. on the next loop iteration
+    const resets = (node: FlowNode): Binding | undefined => {
+        const statement = node.statement;
+        if (statement?.kind === 'VariableDeclaration') {
+            const binding = scopes.bindingOf(statement.name);
+            return binding && tracked.has(binding) ? binding : undefined;
+        }
+        return undefined;
+    };
+
+    // Assigned on every path (intersection) and on some path (union)
+    const all = [...tracked];
+    const mustOut = new Map<FlowNode, Set<Binding>>();
+    const mayOut = new Map<FlowNode, Set<Binding>>();
+    const nodes = graph.nodes.filter(node => graph.isReachable(node));
+    nodes.forEach(node => {
+        mustOut.set(node, new Set(all));
+        mayOut.set(node, new Set());
+    });
+    mustOut.set(graph.entry, new Set());
+    mayOut.set(graph.entry, new Set());
+
+    const inputs = (node: FlowNode) => {
+        const predecessors = node.predecessors.filter(p => mustOut.has(p));
+        const must = new Set(all.filter(b => predecessors.length > 0 && predecessors.every(p => mustOut.get(p)!.has(b))));
+        const may = new Set(all.filter(b => predecessors.some(p => mayOut.get(p)!.has(b))));
+        return { must, may };
+    };
+
+    for (let changed = true; changed;) {
+        changed = false;
+        for (const node of nodes) {
+            const { must, may } = inputs(node);
+            const reset = resets(node);
+            if (reset) {
+                must.delete(reset);
+                may.delete(reset);
+            }
+            writes(node).forEach(binding => {
+                must.add(binding);
+                may.add(binding);
+            });
+            if (must.size !== mustOut.get(node)!.size || may.size !== mayOut.get(node)!.size) {
+                mustOut.set(node, must);
+                mayOut.set(node, may);
+                changed = true;
+            }
+        }
+    }
+
+    const reads: { identifier: Node & { span: Span }, binding: Binding, definitely: boolean }[] = [];
+    const reported = new Set<Binding>();
+    for (const node of nodes) {
+        const { must, may } = inputs(node);
+        for (const expression of ownExpressions(node.statement!)) {
+            walk(expression, child => {
+                if (child.kind !== 'Identifier') {
+                    return;
+                }
+                const binding = scopes.bindingOf(child);
+                if (binding && tracked.has(binding) && !must.has(binding) && !reported.has(binding)) {
+                    reported.add(binding);
+                    reads.push({ identifier: child, binding, definitely: !may.has(binding) });
+                }
+            });
+        }
+    }
+    return reads;
+}
+
+// Whether a loop body can leave the function, which makes `while true` a deliberate main loop
+function exitsFunction(loop: WhileStatement): boolean {
+    let exits = false;
+    walk(loop.body, node => {
+        if (node.kind === 'FunctionDeclaration') {
+            return false;
+        }
+        if (node.kind === 'ReturnStatement' || node.kind === 'RaiseStatement' || node.kind === 'GotoStatement' ||
+            (node.kind === 'CallExpression' && node.callee.kind === 'Identifier' && node.callee.name === 'exit')) {
+            exits = true;
+        }
+        return undefined;
+    });
+    return exits;
+}
+
+export function controlFlowDiagnostics(document: TextDocument, analysis: DocumentAnalysis): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const { program } = analysis.result;
+
+    const check = (graph: ControlFlowGraph, func: FunctionDeclaration | null) => {
+        for (const span of graph.unreachableRuns()) {
+            const diagnostic = Diagnostic.create(spanToRange(document, span), 'Unreachable code', DiagnosticSeverity.Hint);
+            diagnostic.code = 'unreachable-code';
+            diagnostic.tags = [DiagnosticTag.Unnecessary];
+            diagnostics.push(diagnostic);
+        }
+
+        for (const loop of graph.unbrokenLoops) {
+            if (graph.isReachable(loop) && !exitsFunction(loop)) {
+                const diagnostic = Diagnostic.create(
+                    spanToRange(document, loop.condition.span),
+                    'Infinite loop: this loop has no break, return or raise',
+                    DiagnosticSeverity.Information
+                );
+                diagnostic.code = 'infinite-loop';
+                diagnostics.push(diagnostic);
+            }
+        }
+
+        for (const { identifier, binding, definitely } of unassignedReads(graph, analysis.scopes)) {
+            const diagnostic = Diagnostic.create(
+                spanToRange(document, identifier.span),
+                definitely
+                    ? `Variable '${binding.name}' is used before being assigned`
+                    : `Variable '${binding.name}' might be used before being assigned`,
+                DiagnosticSeverity.Warning
+            );
+            diagnostic.code = 'use-before-assign';
+            diagnostics.push(diagnostic);
+        }
+
+        // Non-void functions must return a value on every path
+        const returnType = func?.returnType ? typeRefText(func.returnType) : undefined;
+        if (func && returnType && returnType !== 'void' && returnType !== 'any' && graph.canFallThrough) {
+            let hasReturn = false;
+            walk(func.body!, node => {
+                if (node.kind === 'FunctionDeclaration') {
+                    return false;
+                }
+                hasReturn = hasReturn || (node.kind === 'ReturnStatement' && !!node.argument);
+                return undefined;
+            });
+            const diagnostic = Diagnostic.create(
+                spanToRange(document, func.name.span),
+                hasReturn
+                    ? `Not all code paths in function '${func.name.name}' return a value`
+                    : `Function '${func.name.name}' with return type '${returnType}' must return a value`,
+                DiagnosticSeverity.Warning
+            );
+            diagnostic.code = 'missing-return';
+            diagnostics.push(diagnostic);
+        }
+    };
+
+    check(new ControlFlowGraph(program.body), null);
+    walk(program, node => {
+        if (node.kind === 'FunctionDeclaration' && node.body) {
+            check(new ControlFlowGraph(node.body.body), node);
+        }
+    });
+    return diagnostics;
+}
@@ -0,0 +1,123 @@
+// Deprecated functions: builtins marked in the manifest, and user functions whose `///` doc has
+//   /// @deprecated Optional explanation
+//   /// @replacement new_name
+// Calls are reported with the configured severity and a quick fix rewrites them to the replacement.
+
+import { Diagnostic, DiagnosticSeverity, DiagnosticTag } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Identifier, walk } from './ast';
+import { DocumentAnalysis } from './analysisCache';
+import { builtinFunction } from './builtins';
+import { Binding } from './scopes';
+import { SymbolInfo } from './symbols';
+import { FrscriptConfig, configSection, readConfig, spanToRange } from './utils';
+
+export interface Deprecation {
+    message?: string;
+    // Function to call instead
+    replacement?: string;
+}
+
+const severities: Record<FrscriptConfig['linting']['deprecated'], DiagnosticSeverity> = {
+    error: DiagnosticSeverity.Error,
+    warning: DiagnosticSeverity.Warning,
+    info: DiagnosticSeverity.Information,
+    hint: DiagnosticSeverity.Hint
+};
+
+/** The `@deprecated` and `@replacement` tags of a doc comment. */
+export function docDeprecation(documentation: string | undefined): Deprecation | undefined {
+    const deprecated = documentation?.match(/^@deprecated\b[ \t]*(.*)$/m);
+    if (!deprecated) {
+        return undefined;
+    }
+    const replacement = documentation!.match(/^@replacement[ \t]+(\w+)/m);
+    return { message: deprecated[1].trim() || undefined, replacement: replacement?.[1] };
+}
+
+/** Doc text without the deprecation tags, which hovers show separately. */
+export function stripDeprecationTags(documentation: string): string {
+    return documentation.replace(/^@(deprecated|replacement)\b.*$/gm, '').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+/** Markdown note for a hover or completion item. */
+export function deprecationNote(deprecation: Deprecation): string {
+    let note = '⚠️ **Deprecated**: ' + (deprecation.message || 'This function is deprecated');
+    if (deprecation.replacement) {
+        note += ` Use \`${deprecation.replacement}\` instead.`;
+    }
+    return note;
+}
+
+// A function of this file the binding declares
+function bindingDeprecation(binding: Binding): Deprecation | undefined {
+    return binding.kind === 'function' && binding.node.kind === 'FunctionDeclaration'
+        ? docDeprecation(binding.node.documentation)
+        : undefined;
+}
+
+/**
+ * The deprecation of the function a name refers to: a function of this file, a builtin
+ * or a function another file declares. Method call syntax `x.f()` resolves like `f(x)`.
+ */
+export function calleeDeprecation(
+    callee: Identifier,
+    analysis: DocumentAnalysis,
+    shared: (name: string) => SymbolInfo | undefined = () => undefined
+): Deprecation | undefined {
+    const binding = analysis.scopes.bindingOf(callee);
+    if (binding) {
+        return bindingDeprecation(binding);
+    }
+    const builtin = builtinFunction(callee.name);
+    if (builtin) {
+        return builtin.deprecated ? { message: builtin.message, replacement: builtin.replacement } : undefined;
+    }
+    const symbol = shared(callee.name);
+    return symbol?.type === 'function' ? docDeprecation(symbol.documentation) : undefined;
+}
+
+export function deprecationDiagnostics(
+    document: TextDocument,
+    analysis: DocumentAnalysis,
+    config: FrscriptConfig = readConfig(configSection({})),
+    shared: (name: string) => SymbolInfo | undefined = () => undefined
+): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+
+    walk(analysis.result.program, node => {
+        if (node.kind !== 'CallExpression') {
+            return;
+        }
+        const callee = node.callee.kind === 'MemberExpression' ? node.callee.property : node.callee;
+        if (callee.kind !== 'Identifier') {
+            return;
+        }
+        const deprecation = calleeDeprecation(callee, analysis, shared);
+        if (!deprecation) {
+            return;
+        }
+
+        let message = `'${callee.name}' is deprecated`;
+        if (deprecation.message) {
+            message += `: ${deprecation.message.replace(/\.$/, '')}`;
+        }
+        if (deprecation.replacement) {
+            message += `. Use '${deprecation.replacement}' instead`;
+        }
+        const diagnostic = Diagnostic.create(
+            spanToRange(document, callee.span),
+            message,
+            severities[config.linting.deprecated] ?? DiagnosticSeverity.Warning
+        );
+        diagnostic.code = 'deprecated';
+        diagnostic.tags = [DiagnosticTag.Deprecated];
+        if (deprecation.replacement) {
+            // For the quick fix
+            diagnostic.data = { replacement: deprecation.replacement };
+        }
+        diagnostics.push(diagnostic);
+    });
+
+    return diagnostics;
+}
@@ -0,0 +1,66 @@
+// Every code a Frscript diagnostic can carry. Codes are stable: suppression comments,
+// quick fixes and CI configurations refer to them, so a code is never renamed or reused.
+
+export const diagnosticCodes: Record<string, string> = {
+    // Syntax
+    'syntax-error': 'The parser could not read the code',
+    'no-semicolons': 'Frscript statements do not end with semicolons',
+    'missing-return-type': 'A function declaration has no return type',
+
+    // Types
+    'type-mismatch': 'A value does not match the declared type of a variable, field or parameter',
+    'implicit-cast': 'A value is converted between int and float implicitly (see frscript.typeChecking.numericCoercion)',
+    'bytes-str-mismatch': 'bytes and str are mixed without .decode() or .encode()',
+    'return-type-mismatch': 'A returned value does not match the return type of its function',
+    'argument-count': 'A function is called with too few or too many arguments',
+    'struct-field-count': 'A struct is constructed with the wrong number of fields',
+    'unknown-field': 'A struct has no field of that name',
+    'const-assignment': 'A constant is assigned after its declaration',
+    'prefer-const': 'A global is never reassigned and could be declared const',
+
+    // Names
+    'undefined-name': 'A name inside an f-string interpolation is not declared anywhere',
+
+    // Declarations
+    'duplicate-definition': 'A function or struct is defined twice in the same scope',
+    'duplicate-field': 'A struct declares two fields with the same name',
+    'shadowed-name': 'A local variable hides a parameter, global or builtin function of the same name',
+
+    // Control flow
+    'missing-return': 'A function with a return type can finish without returning a value',
+    'unreachable-code': 'No path through the function reaches the code',
+    'infinite-loop': 'A loop has no way to finish',
+    'use-before-assign': 'A variable is read before a value is assigned to it',
+    'duplicate-case': 'A switch has two cases with the same value',
+    'case-type-mismatch': 'A case value can never equal the switched value',
+    'missing-default': 'A switch has no default case and does not cover every value',
+    'undefined-label': 'A goto names a label its function does not declare',
+    'unused-label': 'No goto jumps to a label',
+
+    // Deprecations
+    'deprecated': 'A deprecated builtin or function is called',
+
+    // Unused code
+    'unused-function': 'A function is never called',
+    'unused-variable': 'A variable is never read',
+    'unused-parameter': 'A parameter is never read (prefix it with _ to keep it)',
+
+    // Python interop
+    'missing-python-import': 'A Python module is called without being imported',
+    'unused-python-import': 'A Python import is never used',
+
+    // C interop
+    'missing-c-header': 'A c_import names a header file that does not exist',
+
+    // Metrics
+    'high-complexity': 'A function exceeds frscript.metrics.maxComplexity',
+    'long-function': 'A function exceeds frscript.metrics.maxFunctionLength',
+    'deep-nesting': 'A function exceeds frscript.metrics.maxNestingDepth',
+
+    // Suppressions
+    'unknown-suppression': 'A suppression comment names a code that does not exist'
+};
+
+export function isDiagnosticCode(code: string): boolean {
+    return Object.prototype.hasOwnProperty.call(diagnosticCodes, code);
+}
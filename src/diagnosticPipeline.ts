@@ -0,0 +1,103 @@
+// Diagnostics of open documents, produced by independent sources (syntax, types, unused code, Python
+// interop, metrics, C interop). Each source owns its share of a document's diagnostics and keeps its last
+// result until a run for a newer version replaces it, so slow sources do not flicker while typing.
+// An edit cancels the runs of the previous version.
+
+import { CancellationToken, CancellationTokenSource, Diagnostic } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+export interface DiagnosticSource {
+    name: string;
+    // Slower sources run once typing pauses instead of on every edit
+    delayed?: boolean;
+    run(document: TextDocument, token: CancellationToken): Diagnostic[] | Promise<Diagnostic[]>;
+}
+
+interface DocumentRun {
+    version: number;
+    cancellation: CancellationTokenSource;
+    timer?: NodeJS.Timeout;
+}
+
+export class DiagnosticPipeline {
+    private runs = new Map<string, DocumentRun>();
+    // Latest diagnostics of each source, per document
+    private results = new Map<string, Map<string, Diagnostic[]>>();
+
+    constructor(
+        private sources: DiagnosticSource[],
+        private publish: (document: TextDocument, diagnostics: Diagnostic[]) => void,
+        // The source is undefined when publishing itself failed
+        private onError: (source: DiagnosticSource | undefined, error: unknown) => void = () => undefined,
+        private delay: number = 500
+    ) {}
+
+    /** Recompute every source for the current version of a document, cancelling older runs. */
+    update(document: TextDocument) {
+        this.cancel(document.uri);
+        const run: DocumentRun = { version: document.version, cancellation: new CancellationTokenSource() };
+        this.runs.set(document.uri, run);
+
+        const immediate = this.sources.filter(source => !source.delayed);
+        const delayed = this.sources.filter(source => source.delayed);
+
+        this.runSources(document, run, immediate).then(completed => {
+            if (completed && delayed.length > 0) {
+                run.timer = setTimeout(() => {
+                    this.runSources(document, run, delayed).catch(error => this.onError(undefined, error));
+                }, this.delay);
+            }
+        }).catch(error => this.onError(undefined, error));
+    }
+
+    updateAll(documents: TextDocument[]) {
+        documents.forEach(document => this.update(document));
+    }
+
+    /** Stop the runs of a closed document and forget its diagnostics. */
+    remove(uri: string) {
+        this.cancel(uri);
+        this.runs.delete(uri);
+        this.results.delete(uri);
+    }
+
+    private cancel(uri: string) {
+        const run = this.runs.get(uri);
+        if (run) {
+            clearTimeout(run.timer);
+            run.cancellation.cancel();
+            run.cancellation.dispose();
+        }
+    }
+
+    // Run sources for one version and publish the whole set once they all finished; false when outdated
+    private async runSources(document: TextDocument, run: DocumentRun, sources: DiagnosticSource[]): Promise<boolean> {
+        const { token } = run.cancellation;
+
+        // Open documents are updated in place, so a changed version means a newer run is on its way
+        const outdated = () => token.isCancellationRequested || document.version !== run.version;
+
+        const finished = new Map<string, Diagnostic[]>();
+        for (const source of sources) {
+            if (outdated()) {
+                return false;
+            }
+            try {
+                finished.set(source.name, await source.run(document, token));
+            } catch (error) {
+                this.onError(source, error);
+                finished.set(source.name, []);
+            }
+        }
+        if (outdated()) {
+            return false;
+        }
+
+        const results = this.results.get(document.uri) ?? new Map<string, Diagnostic[]>();
+        finished.forEach((diagnostics, name) => results.set(name, diagnostics));
+        this.results.set(document.uri, results);
+        // Sources keep their configured order, whichever finished first
+        this.publish(document, this.sources.flatMap(source => results.get(source.name) ?? []));
+        return true;
+    }
+}
@@ -0,0 +1,774 @@
+// Core language diagnostics, split by analyzer: syntax, types, unused code, declarations and C interop.
+// Editor independent so the language server and command-line tools report the same problems.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { CancellationToken, Diagnostic, DiagnosticRelatedInformation, DiagnosticSeverity, DiagnosticTag, Location, Range } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Expression, FunctionDeclaration, Node, walk } from './ast';
+import { DocumentAnalysis } from './analysisCache';
+import { builtinConstant, builtinFunction, builtinMethod } from './builtins';
+import { Binding, Scope } from './scopes';
+import { controlFlowDiagnostics, coversAllCases } from './controlFlow';
+import { deprecationDiagnostics } from './deprecations';
+import { SymbolInfo, isSymbolName, typeRefText, types } from './symbols';
+import { baseType, isAssignable, normalizeType } from './typeInference';
+import { FrscriptConfig, configSection, readConfig, spanToRange } from './utils';
+
+/** Parse errors, semicolons and function declarations without a return type. */
+export function syntaxDiagnostics(document: TextDocument, analysis: DocumentAnalysis): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const { result } = analysis;
+
+    // Syntax errors from the parser
+    for (const error of result.errors) {
+        const diagnostic = Diagnostic.create(
+            spanToRange(document, error.span),
+            error.message,
+            DiagnosticSeverity.Error
+        );
+        diagnostic.code = 'syntax-error';
+        diagnostics.push(diagnostic);
+    }
+
+    // Check for semicolons (error in Frscript - no semicolons allowed)
+    for (const token of result.tokens) {
+        if (token.kind === 'operator' && token.text === ';') {
+            const diagnostic = Diagnostic.create(
+                spanToRange(document, token),
+                'Frscript does not use semicolons',
+                DiagnosticSeverity.Error
+            );
+            diagnostic.code = 'no-semicolons';
+            diagnostics.push(diagnostic);
+        }
+    }
+
+    // Check for invalid function declarations (missing return type)
+    for (const statement of result.program.body) {
+        if (statement.kind === 'FunctionDeclaration' && !statement.returnType && !types.includes(statement.name.name)) {
+            // The quick fix rewrites the whole line, so the range covers it
+            const { line } = document.positionAt(statement.name.span.start);
+            const diagnostic = Diagnostic.create(
+                Range.create(line, 0, line, analysis.lines.lineAt(line).text.length),
+                `Missing return type for function. Did you mean 'void ${statement.name.name}'?`,
+                DiagnosticSeverity.Error
+            );
+            diagnostic.code = 'missing-return-type';
+            diagnostics.push(diagnostic);
+        }
+    }
+
+    return diagnostics;
+}
+
+// The call that turns a value into the other of bytes and str, where only that one is accepted
+function bytesConversion(expected: string, actual: string | null): '.decode()' | '.encode()' | undefined {
+    const accepted = expected.split('|').map(normalizeType);
+    if (accepted.includes('any')) {
+        return undefined;
+    }
+    if (actual === 'bytes' && accepted.includes('str') && !accepted.includes('bytes')) {
+        return '.decode()';
+    }
+    if (actual === 'str' && accepted.includes('bytes') && !accepted.includes('str')) {
+        return '.encode()';
+    }
+    return undefined;
+}
+
+/** Type checks of calls, assignments, struct fields, returns and switches, constants, labels and control flow. */
+export function typeDiagnostics(
+    document: TextDocument,
+    analysis: DocumentAnalysis,
+    config: FrscriptConfig = readConfig(configSection({})),
+    // Functions and structs declared by other files of the workspace
+    shared: (name: string) => SymbolInfo | undefined = () => undefined
+): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const { result, symbols, typeInference } = analysis;
+    const { program } = result;
+
+    // Whether a value of a known type cannot be used where another type is expected
+    const mismatched = (expected: string, actual: string | null): actual is string =>
+        !!actual && !isAssignable(expected, actual);
+
+    // bytes and str meet only through an explicit decode or encode, which the quick fix inserts
+    const reportConversion = (value: Expression, conversion: '.decode()' | '.encode()', message: string, severity: DiagnosticSeverity = DiagnosticSeverity.Error) => {
+        const diagnostic = Diagnostic.create(spanToRange(document, value.span), `${message}; convert it with ${conversion}`, severity);
+        diagnostic.code = 'bytes-str-mismatch';
+        diagnostic.data = { conversion };
+        diagnostics.push(diagnostic);
+    };
+
+    // Report a value of the wrong type; conversions between int and float follow `typeChecking.numericCoercion`
+    const { numericCoercion } = config.typeChecking;
+    const reportMismatch = (value: Expression, expectedType: string, inferredType: string, context: string, message: string, code: string) => {
+        const range = spanToRange(document, value.span);
+        const expected = normalizeType(expectedType);
+        const conversion = bytesConversion(expected, inferredType);
+        if (conversion) {
+            reportConversion(value, conversion, message);
+            return;
+        }
+        if ((expected === 'int' && inferredType === 'float') || (expected === 'float' && inferredType === 'int')) {
+            if (numericCoercion === 'allow') {
+                return;
+            }
+            const truncated = expected === 'int' ? ' (value will be truncated)' : '';
+            const diagnostic = Diagnostic.create(
+                range,
+                `Implicit conversion from '${inferredType}' to '${expected}'${context}${truncated}`,
+                numericCoercion === 'error' ? DiagnosticSeverity.Error : DiagnosticSeverity.Warning
+            );
+            diagnostic.code = 'implicit-cast';
+            diagnostic.data = { target: expected };
+            diagnostics.push(diagnostic);
+            return;
+        }
+        const diagnostic = Diagnostic.create(range, message, DiagnosticSeverity.Error);
+        diagnostic.code = code;
+        diagnostics.push(diagnostic);
+    };
+
+    const userFunctions = symbols.filter(s => s.type === 'function');
+    const userStructs = symbols.filter(s => s.type === 'struct');
+
+    // Type checking for function calls and struct construction
+    walk(program, node => {
+        if (node.kind !== 'CallExpression' || node.callee.kind !== 'Identifier') {
+            return;
+        }
+
+        const funcName = node.callee.name;
+        const { args } = node;
+
+        // Names this file does not declare may come from another file
+        let structDef = userStructs.find(s => s.name === funcName);
+        let funcDef = userFunctions.find(f => f.name === funcName);
+        if (!structDef && !funcDef && !analysis.scopes.bindingOf(node.callee) && !builtinFunction(funcName)) {
+            const declaration = shared(funcName);
+            structDef = declaration?.type === 'struct' ? declaration : undefined;
+            funcDef = declaration?.type === 'function' ? declaration : undefined;
+        }
+
+        // Check if it's a struct construction
+        if (structDef && structDef.fields) {
+            // Check argument count
+            if (args.length !== structDef.fields.length) {
+                const diagnostic = Diagnostic.create(
+                    spanToRange(document, node.span),
+                    `Struct '${funcName}' expects ${structDef.fields.length} field(s), but got ${args.length}`,
+                    DiagnosticSeverity.Error
+                );
+                diagnostic.code = 'struct-field-count';
+                diagnostics.push(diagnostic);
+                return;
+            }
+
+            // Check field types; keyword arguments name the field they set
+            args.forEach((arg, argIdx) => {
+                const field = arg.kind === 'KeywordArgument'
+                    ? structDef.fields!.find(f => f.name === arg.name.name)
+                    : structDef.fields![argIdx];
+                if (!field) {
+                    const diagnostic = Diagnostic.create(
+                        spanToRange(document, arg.span),
+                        `Struct '${funcName}' has no field '${arg.kind === 'KeywordArgument' ? arg.name.name : argIdx}'`,
+                        DiagnosticSeverity.Error
+                    );
+                    diagnostic.code = 'unknown-field';
+                    diagnostics.push(diagnostic);
+                    return;
+                }
+                const value = arg.kind === 'KeywordArgument' ? arg.value : arg;
+                const expectedType = field.type;
+                const inferredType = typeInference.typeOf(value);
+
+                if (mismatched(expectedType, inferredType)) {
+                    reportMismatch(
+                        value, expectedType, inferredType,
+                        ` in struct '${funcName}' field '${field.name}'`,
+                        `Type mismatch in struct '${funcName}': field '${field.name}' expects '${expectedType}', but got '${inferredType}'`,
+                        'type-mismatch'
+                    );
+                }
+            });
+            return;
+        }
+
+        if (!funcDef || !funcDef.parameters) {
+            return;
+        }
+
+        // Check argument count (skip for varargs functions)
+        const hasVarargs = funcDef.parameters.some(p => p.type.endsWith('*'));
+        if (hasVarargs) {
+            return;
+        }
+        const required = funcDef.parameters.filter(p => !p.optional).length;
+        const total = funcDef.parameters.length;
+        if (args.length < required || args.length > total) {
+            const expected = required === total ? `${total}` : `${required} to ${total}`;
+            const diagnostic = Diagnostic.create(
+                spanToRange(document, node.span),
+                `Function '${funcName}' expects ${expected} argument(s), but got ${args.length}`,
+                DiagnosticSeverity.Error
+            );
+            diagnostic.code = 'argument-count';
+            diagnostics.push(diagnostic);
+            return;
+        }
+
+        // Check argument types
+        args.forEach((arg, argIdx) => {
+            if (arg.kind === 'KeywordArgument') {
+                return;
+            }
+            const expectedType = funcDef.parameters![argIdx].type;
+            const inferredType = typeInference.typeOf(arg);
+
+            if (mismatched(expectedType, inferredType)) {
+                reportMismatch(
+                    arg, expectedType, inferredType,
+                    ` in function '${funcName}' parameter '${funcDef.parameters![argIdx].name}'`,
+                    `Type mismatch: expected '${expectedType}', but got '${inferredType}'`,
+                    'type-mismatch'
+                );
+            }
+        });
+    });
+
+    // Builtins taking text or binary data, and concatenations of the two; recv and fread return bytes
+    walk(program, node => {
+        if (node.kind === 'BinaryExpression' && node.operator === '+') {
+            const left = typeInference.typeOf(node.left);
+            const right = typeInference.typeOf(node.right);
+            if ((left === 'bytes' && right === 'str') || (left === 'str' && right === 'bytes')) {
+                reportConversion(left === 'bytes' ? node.left : node.right, '.decode()', `Cannot concatenate '${left}' and '${right}'`);
+            }
+            return;
+        }
+        if (node.kind !== 'CallExpression') {
+            return;
+        }
+
+        // Method syntax `data.split(",")` passes the object as the first argument
+        const { callee } = node;
+        const name = callee.kind === 'MemberExpression' ? callee.property : callee;
+        if (name.kind !== 'Identifier' || analysis.scopes.bindingOf(name)) {
+            return;
+        }
+        const receiver = callee.kind === 'MemberExpression' ? typeInference.typeOf(callee.object) : null;
+        const func = (receiver ? builtinMethod(baseType(receiver), name.name) : undefined) ?? builtinFunction(name.name);
+        // decode and encode are the conversions themselves
+        if (!func || func.name === 'decode' || func.name === 'encode') {
+            return;
+        }
+        const args = callee.kind === 'MemberExpression' ? [callee.object, ...node.args] : node.args;
+        const variadic = func.params.length > 0 && func.params[func.params.length - 1].variadic ? func.params[func.params.length - 1] : undefined;
+
+        const passed = args.flatMap((arg, index) => {
+            const param = func.params[index] ?? variadic;
+            return arg.kind === 'KeywordArgument' || !param ? [] : [{ arg, param, actual: typeInference.typeOf(arg) }];
+        });
+
+        // Text builtins also work on bytes when all their text is bytes, as in `data.split(b",")`;
+        // only mixing the two is rejected at runtime
+        const text = passed.filter(({ param }) => bytesConversion(param.type, 'bytes'));
+        const allBytes = text.length > 0 && text.every(({ actual }) => actual === 'bytes');
+
+        for (const { arg, param, actual } of passed) {
+            if ((func.name === 'print' || func.name === 'println') && actual === 'bytes') {
+                reportConversion(arg, '.decode()', `'${func.name}' shows the representation of 'bytes', not its text`, DiagnosticSeverity.Warning);
+                continue;
+            }
+            const conversion = bytesConversion(param.type, actual);
+            if (conversion && !(conversion === '.decode()' && allBytes)) {
+                reportConversion(arg, conversion, `'${func.name}' expects '${param.type}' for '${param.name}', but got '${actual}'`);
+            }
+        }
+    });
+
+    // Check variable declarations and assignments against the declared type
+    const checkedTypes = ['int', 'float', 'str', 'string', 'bool', 'list', 'dict', 'set', 'bytes', 'pyobject', 'pyobj'];
+    const checkAssignment = (value: Expression, declaredType: string, inferredType: string | null, target: string) => {
+        const checked = checkedTypes.includes(baseType(declaredType)) || !!typeInference.struct(declaredType);
+        if (!checked || !mismatched(declaredType, inferredType)) {
+            return;
+        }
+        reportMismatch(value, declaredType, inferredType, '', `Type mismatch: cannot assign '${inferredType}' to ${target} of type '${declaredType}'`, 'type-mismatch');
+    };
+
+    walk(program, node => {
+        if (node.kind === 'VariableDeclaration' && node.init) {
+            checkAssignment(node.init, typeInference.declaredType(analysis.scopes.bindingOf(node.name)) ?? typeRefText(node.type), typeInference.typeOf(node.init), 'variable');
+        } else if (node.kind === 'Assignment' && node.operator === '=') {
+            // The target's declared type, not the type narrowed by earlier assignments
+            const declaredType = node.target.kind === 'Identifier'
+                ? typeInference.declaredType(analysis.scopes.bindingOf(node.target))
+                : node.target.kind === 'MemberExpression' ? typeInference.typeOf(node.target) : null;
+            if (declaredType) {
+                const target = node.target.kind === 'Identifier' ? `'${node.target.name}'` : 'field';
+                checkAssignment(node.value, declaredType, typeInference.typeOf(node.value), target);
+            }
+        }
+    });
+
+    // Field accesses on values of a known struct type
+    walk(program, (node, parent) => {
+        if (node.kind !== 'MemberExpression') {
+            return;
+        }
+        // Method call syntax `p.f()` calls a function, not a field
+        if (parent && parent.kind === 'CallExpression' && parent.callee === node) {
+            return;
+        }
+        const objectType = typeInference.typeOf(node.object);
+        const struct = objectType ? typeInference.struct(objectType) : undefined;
+        if (struct && !struct.fields.some(field => field.name.name === node.property.name)) {
+            const diagnostic = Diagnostic.create(
+                spanToRange(document, node.property.span),
+                `Struct '${struct.name.name}' has no field '${node.property.name}'`,
+                DiagnosticSeverity.Error
+            );
+            diagnostic.code = 'unknown-field';
+            diagnostics.push(diagnostic);
+        }
+    });
+
+    // Check switch statements: duplicate and mistyped case values, and a missing default
+    const caseValue = (test: Expression): string | undefined => {
+        switch (test.kind) {
+            case 'IntLiteral':
+            case 'FloatLiteral':
+                return String(test.value);
+            case 'StringLiteral':
+                return JSON.stringify(test.value);
+            case 'BoolLiteral':
+                return String(test.value);
+            case 'UnaryExpression': {
+                const value = test.operator === '-' ? caseValue(test.argument) : undefined;
+                return value !== undefined && !isNaN(Number(value)) ? String(-Number(value)) : undefined;
+            }
+            case 'ParenthesizedExpression':
+                return caseValue(test.expression);
+            case 'Identifier': {
+                // Constants compare by their value
+                const declaration = analysis.scopes.bindingOf(test)?.node;
+                return declaration?.kind === 'VariableDeclaration' && declaration.isConst && declaration.init
+                    ? caseValue(declaration.init)
+                    : undefined;
+            }
+            default:
+                return undefined;
+        }
+    };
+    const numeric = (type: string) => type === 'int' || type === 'float';
+    const comparable = (left: string, right: string) =>
+        (numeric(left) && numeric(right)) || isAssignable(left, right) || isAssignable(right, left);
+
+    walk(program, node => {
+        if (node.kind !== 'SwitchStatement') {
+            return;
+        }
+        const switchedType = typeInference.typeOf(node.discriminant);
+        const seen = new Set<string>();
+
+        for (const test of node.cases.flatMap(arm => arm.tests)) {
+            const value = caseValue(test);
+            if (value !== undefined && seen.has(value)) {
+                const diagnostic = Diagnostic.create(
+                    spanToRange(document, test.span),
+                    `Duplicate case value ${value}`,
+                    DiagnosticSeverity.Error
+                );
+                diagnostic.code = 'duplicate-case';
+                diagnostics.push(diagnostic);
+            } else if (value !== undefined) {
+                seen.add(value);
+            }
+
+            const caseType = typeInference.typeOf(test);
+            if (switchedType && caseType && !comparable(normalizeType(switchedType), normalizeType(caseType))) {
+                const diagnostic = Diagnostic.create(
+                    spanToRange(document, test.span),
+                    `Case of type '${caseType}' can never match a switch on '${switchedType}'`,
+                    DiagnosticSeverity.Error
+                );
+                diagnostic.code = 'case-type-mismatch';
+                diagnostics.push(diagnostic);
+            }
+        }
+
+        if (!coversAllCases(node)) {
+            const diagnostic = Diagnostic.create(
+                spanToRange(document, { start: node.span.start, end: node.span.start + 'switch'.length }),
+                'Switch has no default case and does not cover every value',
+                DiagnosticSeverity.Information
+            );
+            diagnostic.code = 'missing-default';
+            diagnostics.push(diagnostic);
+        }
+    });
+
+    // Check return type mismatches in functions
+    walk(program, node => {
+        if (node.kind !== 'FunctionDeclaration') {
+            return;
+        }
+        const func = node;
+        const returnType = func.returnType ? typeRefText(func.returnType) : undefined;
+        if (!func.body || !returnType || returnType === 'void' || returnType === 'any') {
+            return false;  // Skip void and any functions
+        }
+
+        walk(func.body, statement => {
+            if (statement.kind !== 'ReturnStatement' || !statement.argument) {
+                return;
+            }
+
+            // Only flag type mismatches if we can confidently infer the type
+            // and it doesn't match the function's return type
+            const inferredType = typeInference.typeOf(statement.argument);
+            if (mismatched(returnType, inferredType)) {
+                reportMismatch(
+                    statement.argument, returnType, inferredType,
+                    ` in return of function '${func.name.name}'`,
+                    `Return type mismatch in function '${func.name.name}': expected '${returnType}', but got '${inferredType}'`,
+                    'return-type-mismatch'
+                );
+            }
+        });
+        return false;
+    });
+
+    // Missing returns, unreachable code, unassigned reads and endless loops
+    diagnostics.push(...controlFlowDiagnostics(document, analysis));
+
+    // Check assignments to constants
+    walk(program, node => {
+        if (node.kind !== 'Assignment' || node.target.kind !== 'Identifier') {
+            return;
+        }
+        const binding = analysis.scopes.bindingOf(node.target);
+        if (!binding || binding.node.kind !== 'VariableDeclaration') {
+            return;
+        }
+        if (binding.node.isConst) {
+            const diagnostic = Diagnostic.create(
+                spanToRange(document, node.target.span),
+                `Cannot assign to '${binding.name}' because it is a constant`,
+                DiagnosticSeverity.Error
+            );
+            diagnostic.code = 'const-assignment';
+            diagnostic.relatedInformation = [DiagnosticRelatedInformation.create(
+                Location.create(document.uri, spanToRange(document, binding.declaration.span)),
+                `'${binding.name}' is declared here`
+            )];
+            diagnostics.push(diagnostic);
+        }
+    });
+
+    // Check gotos against the labels of their function
+    for (const scope of analysis.labels) {
+        for (const identifier of scope.unresolved) {
+            const diagnostic = Diagnostic.create(
+                spanToRange(document, identifier.span),
+                `Label '${identifier.name}' is not defined`,
+                DiagnosticSeverity.Error
+            );
+            diagnostic.code = 'undefined-label';
+            diagnostics.push(diagnostic);
+        }
+    }
+
+    return diagnostics;
+}
+
+/** Functions, variables and labels that are never used, and globals that could be constants. */
+export function unusedDiagnostics(document: TextDocument, analysis: DocumentAnalysis): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+
+    // Check unused functions (exclude main)
+    analysis.result.program.body.forEach(statement => {
+        if (statement.kind !== 'FunctionDeclaration' || statement.name.name === 'main') {
+            return;  // main is always "used"
+        }
+
+        // Decorated functions are considered used
+        if (statement.decorators.length > 0) {
+            return;
+        }
+
+        const binding = analysis.scopes.bindingOf(statement.name);
+        if (binding && binding.references.length === 0) {
+            const diagnostic = Diagnostic.create(
+                spanToRange(document, statement.name.span),
+                `Function '${statement.name.name}' is declared but never used`,
+                DiagnosticSeverity.Hint
+            );
+            diagnostic.code = 'unused-function';
+            diagnostic.tags = [DiagnosticTag.Unnecessary];
+            diagnostics.push(diagnostic);
+        }
+    });
+
+    // Labels no goto jumps to
+    for (const scope of analysis.labels) {
+        for (const label of scope.labels.values()) {
+            if (label.references.length === 0) {
+                const diagnostic = Diagnostic.create(
+                    spanToRange(document, label.declaration.span),
+                    `Label '${label.name}' is declared but never used`,
+                    DiagnosticSeverity.Hint
+                );
+                diagnostic.code = 'unused-label';
+                diagnostic.tags = [DiagnosticTag.Unnecessary];
+                diagnostics.push(diagnostic);
+            }
+        }
+    }
+
+    // Globals that are never reassigned could be constants
+    const reassigned = new Set<Binding>();
+    walk(analysis.result.program, node => {
+        if (node.kind === 'Assignment' && node.target.kind === 'Identifier') {
+            const binding = analysis.scopes.bindingOf(node.target);
+            if (binding) {
+                reassigned.add(binding);
+            }
+        }
+    });
+
+    // Only values that cannot be mutated in place, so `const` does not change behavior
+    const immutableTypes = ['int', 'float', 'str', 'string', 'bool', 'bytes'];
+    analysis.scopes.root.bindings.forEach(binding => {
+        const declaration = binding.node;
+        if (binding.kind !== 'variable' || declaration.kind !== 'VariableDeclaration' || declaration.isConst ||
+            !declaration.init || !immutableTypes.includes(typeRefText(declaration.type)) || reassigned.has(binding)) {
+            return;
+        }
+        const diagnostic = Diagnostic.create(
+            spanToRange(document, binding.declaration.span),
+            `Global '${binding.name}' is never reassigned; declare it 'const'`,
+            DiagnosticSeverity.Hint
+        );
+        diagnostic.code = 'prefer-const';
+        diagnostics.push(diagnostic);
+    });
+
+    // Parameters the body never reads; a leading underscore marks one as unused on purpose
+    const functionOf = new Map<Node, FunctionDeclaration>();
+    walk(analysis.result.program, node => {
+        if (node.kind === 'FunctionDeclaration') {
+            node.params.forEach(param => functionOf.set(param, node));
+        }
+    });
+    analysis.scopes.bindings.filter(binding => binding.kind === 'parameter').forEach(parameter => {
+        const func = functionOf.get(parameter.node);
+        if (parameter.references.length > 0 || parameter.name.startsWith('_') || !func?.body) {
+            return;
+        }
+        const diagnostic = Diagnostic.create(
+            spanToRange(document, parameter.declaration.span),
+            `Parameter '${parameter.name}' of function '${func.name.name}' is never used`,
+            DiagnosticSeverity.Hint
+        );
+        diagnostic.code = 'unused-parameter';
+        diagnostic.tags = [DiagnosticTag.Unnecessary];
+        diagnostics.push(diagnostic);
+    });
+
+    // Check unused variables per binding, so a shadowing declaration is not kept alive by uses of the outer one
+    analysis.scopes.bindings.filter(binding => binding.kind === 'variable').forEach(variable => {
+        if (variable.references.length === 0) {
+            const diagnostic = Diagnostic.create(
+                spanToRange(document, variable.declaration.span),
+                `Variable '${variable.name}' is declared but never used`,
+                DiagnosticSeverity.Hint
+            );
+            diagnostic.code = 'unused-variable';
+            diagnostic.tags = [DiagnosticTag.Unnecessary];
+            diagnostics.push(diagnostic);
+        }
+    });
+
+    return diagnostics;
+}
+
+/** Functions, structs and fields declared twice, and locals hiding a parameter, global or builtin. */
+export function declarationDiagnostics(document: TextDocument, analysis: DocumentAnalysis): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const { scopes } = analysis;
+
+    const declaredHere = (binding: Binding, message: string) => DiagnosticRelatedInformation.create(
+        Location.create(document.uri, spanToRange(document, binding.declaration.span)),
+        message
+    );
+
+    // Functions and structs share one namespace per scope; every definition after the first is an error
+    for (const binding of scopes.bindings) {
+        if (binding.kind !== 'function' && binding.kind !== 'struct') {
+            continue;
+        }
+        const first = binding.scope.bindings.find(other => other.name === binding.name && (other.kind === 'function' || other.kind === 'struct'));
+        if (first && first !== binding) {
+            const diagnostic = Diagnostic.create(
+                spanToRange(document, binding.declaration.span),
+                `${binding.kind === 'function' ? 'Function' : 'Struct'} '${binding.name}' is already defined`,
+                DiagnosticSeverity.Error
+            );
+            diagnostic.code = 'duplicate-definition';
+            diagnostic.relatedInformation = [declaredHere(first, `'${first.name}' is first defined here`)];
+            diagnostics.push(diagnostic);
+        }
+    }
+
+    walk(analysis.result.program, node => {
+        if (node.kind !== 'StructDeclaration') {
+            return;
+        }
+        node.fields.forEach((field, index) => {
+            const first = node.fields.find(other => other.name.name === field.name.name);
+            if (first && node.fields.indexOf(first) < index) {
+                const diagnostic = Diagnostic.create(
+                    spanToRange(document, field.name.span),
+                    `Field '${field.name.name}' is already declared in struct '${node.name.name}'`,
+                    DiagnosticSeverity.Error
+                );
+                diagnostic.code = 'duplicate-field';
+                diagnostic.relatedInformation = [DiagnosticRelatedInformation.create(
+                    Location.create(document.uri, spanToRange(document, first.name.span)),
+                    `'${first.name.name}' is first declared here`
+                )];
+                diagnostics.push(diagnostic);
+            }
+        });
+    });
+
+    // Locals hiding a parameter of their function, a global or a builtin; blocks nested in a function may reuse each other's names
+    for (const binding of scopes.bindings) {
+        if ((binding.kind !== 'variable' && binding.kind !== 'loop-variable' && binding.kind !== 'exception') || binding.scope === scopes.root) {
+            continue;
+        }
+        const start = binding.declaration.span.start;
+        let shadowed: Binding | undefined;
+        for (let scope: Scope | null = binding.scope; scope && !shadowed; scope = scope.parent) {
+            shadowed = scope.bindings.find(other => other.name === binding.name && other.visibleFrom <= start &&
+                (other.kind === 'parameter' || scope === scopes.root));
+        }
+
+        let description: string | undefined;
+        if (shadowed) {
+            description = shadowed.kind === 'parameter' ? 'parameter' : `global ${shadowed.kind}`;
+        } else if (builtinFunction(binding.name)) {
+            description = 'builtin function';
+        }
+        if (!description) {
+            continue;
+        }
+        const diagnostic = Diagnostic.create(
+            spanToRange(document, binding.declaration.span),
+            `'${binding.name}' shadows the ${description} of the same name`,
+            DiagnosticSeverity.Warning
+        );
+        diagnostic.code = 'shadowed-name';
+        if (shadowed) {
+            diagnostic.relatedInformation = [declaredHere(shadowed, `The shadowed '${shadowed.name}' is declared here`)];
+        }
+        diagnostics.push(diagnostic);
+    }
+
+    return diagnostics;
+}
+
+/** Names inside f-string interpolations that nothing declares. */
+export function fStringDiagnostics(
+    document: TextDocument,
+    analysis: DocumentAnalysis,
+    // Top-level names of other files of the workspace
+    declaredElsewhere: (name: string) => boolean = () => false
+): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const cNames = new Set(analysis.cSymbols.map(symbol => symbol.name));
+
+    const isDefined = (name: string) =>
+        !!builtinFunction(name) || !!builtinConstant(name) || cNames.has(name) || declaredElsewhere(name);
+
+    walk(analysis.result.program, node => {
+        if (node.kind !== 'FStringInterpolation') {
+            return;
+        }
+        // Nested f-strings are covered by this walk, so the outer one skips them
+        walk(node, (inner, parent) => {
+            if (inner.kind !== 'Identifier' || !isSymbolName(inner, parent) || analysis.scopes.bindingOf(inner) || isDefined(inner.name)) {
+                return;
+            }
+            const diagnostic = Diagnostic.create(
+                spanToRange(document, inner.span),
+                `'${inner.name}' is not defined`,
+                DiagnosticSeverity.Error
+            );
+            diagnostic.code = 'undefined-name';
+            diagnostics.push(diagnostic);
+        });
+        return false;
+    });
+
+    return diagnostics;
+}
+
+/** c_import headers that cannot be found, relative to the document or the working directory. */
+export function cInteropDiagnostics(document: TextDocument, analysis: DocumentAnalysis, token?: CancellationToken): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const directory = document.uri.startsWith('file:') ? path.dirname(fileURLToPath(document.uri)) : undefined;
+
+    for (const statement of analysis.result.program.body) {
+        if (token?.isCancellationRequested) {
+            return [];
+        }
+        if (statement.kind !== 'CImport') {
+            continue;
+        }
+        // Quoted names and paths are project files; <stdio.h> and bare names come from the compiler's include path
+        const quoted = statement.path.match(/^"(.*)"$/);
+        const header = quoted ? quoted[1] : statement.path;
+        if (!header || header.startsWith('<') || (!quoted && !/[\\/]/.test(header))) {
+            continue;
+        }
+        const candidates = [header];
+        if (directory && !path.isAbsolute(header)) {
+            candidates.unshift(path.join(directory, header));
+        }
+        if (!candidates.some(candidate => fs.existsSync(candidate))) {
+            const diagnostic = Diagnostic.create(
+                spanToRange(document, statement.span),
+                `C header '${header}' not found`,
+                DiagnosticSeverity.Warning
+            );
+            diagnostic.code = 'missing-c-header';
+            diagnostics.push(diagnostic);
+        }
+    }
+
+    return diagnostics;
+}
+
+export function computeDiagnostics(
+    document: TextDocument,
+    analysis: DocumentAnalysis,
+    config: FrscriptConfig = readConfig(configSection({})),
+    declaredElsewhere: (name: string) => boolean = () => false
+): Diagnostic[] {
+    return [
+        ...syntaxDiagnostics(document, analysis),
+        ...typeDiagnostics(document, analysis, config),
+        ...unusedDiagnostics(document, analysis),
+        ...declarationDiagnostics(document, analysis),
+        ...fStringDiagnostics(document, analysis, declaredElsewhere),
+        ...deprecationDiagnostics(document, analysis, config),
+        ...cInteropDiagnostics(document, analysis)
+    ];
+}
@@ -1,5 +1,5 @@
 import * as vscode from 'vscode';
-import { getConfig } from './utils';
+import { readConfig } from './utils';
 
 export interface DocstringTemplate {
     summary: string;
@@ -46,7 +46,7 @@ export class DocumentationProvider {
         }
 
         // Generate docstring
-        const config = getConfig();
+        const config = readConfig(vscode.workspace.getConfiguration('frscript'));
         let docstring = '/// ';
         
         // Summary
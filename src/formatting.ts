@@ -1,10 +1,9 @@
-import * as vscode from 'vscode';
-import { getConfig, createIndent } from './utils';
+import { Position, Range, TextEdit } from 'vscode-languageserver';
+import { FrscriptConfig, LinePosition, TextLines, createIndent } from './utils';
 
-export class EnhancedFormattingProvider implements vscode.DocumentFormattingEditProvider {
-    public provideDocumentFormattingEdits(document: vscode.TextDocument): vscode.TextEdit[] {
-        const edits: vscode.TextEdit[] = [];
-        const config = getConfig();
+export class EnhancedFormattingProvider {
+    public provideDocumentFormattingEdits(document: TextLines, config: FrscriptConfig): TextEdit[] {
+        const edits: TextEdit[] = [];
         let indentLevel = 0;
 
         for (let i = 0; i < document.lineCount; i++) {
@@ -29,11 +28,8 @@ export class EnhancedFormattingProvider implements vscode.DocumentFormattingEdit
                 const formatted = properIndent + trimmed;
 
                 if (formatted !== text) {
-                    const range = new vscode.Range(
-                        new vscode.Position(i, 0),
-                        new vscode.Position(i, text.length)
-                    );
-                    edits.push(vscode.TextEdit.replace(range, formatted));
+                    const range = Range.create(i, 0, i, text.length);
+                    edits.push(TextEdit.replace(range, formatted));
                 }
                 continue;
             }
@@ -43,11 +39,8 @@ export class EnhancedFormattingProvider implements vscode.DocumentFormattingEdit
             const formatted = properIndent + trimmed;
 
             if (formatted !== text) {
-                const range = new vscode.Range(
-                    new vscode.Position(i, 0),
-                    new vscode.Position(i, text.length)
-                );
-                edits.push(vscode.TextEdit.replace(range, formatted));
+                const range = Range.create(i, 0, i, text.length);
+                edits.push(TextEdit.replace(range, formatted));
             }
 
             // Increase indent for opening braces and case statements
@@ -62,13 +55,13 @@ export class EnhancedFormattingProvider implements vscode.DocumentFormattingEdit
     }
 }
 
-export class RangeFormattingProvider implements vscode.DocumentRangeFormattingEditProvider {
+export class RangeFormattingProvider {
     public provideDocumentRangeFormattingEdits(
-        document: vscode.TextDocument,
-        range: vscode.Range
-    ): vscode.TextEdit[] {
-        const edits: vscode.TextEdit[] = [];
-        const config = getConfig();
+        document: TextLines,
+        range: Range,
+        config: FrscriptConfig
+    ): TextEdit[] {
+        const edits: TextEdit[] = [];
 
         // Determine starting indent level
         let indentLevel = 0;
@@ -96,11 +89,8 @@ export class RangeFormattingProvider implements vscode.DocumentRangeFormattingEd
             const formatted = properIndent + trimmed;
 
             if (formatted !== text) {
-                const lineRange = new vscode.Range(
-                    new vscode.Position(i, 0),
-                    new vscode.Position(i, text.length)
-                );
-                edits.push(vscode.TextEdit.replace(lineRange, formatted));
+                const lineRange = Range.create(i, 0, i, text.length);
+                edits.push(TextEdit.replace(lineRange, formatted));
             }
 
             if (trimmed.endsWith('{')) {
@@ -112,26 +102,26 @@ export class RangeFormattingProvider implements vscode.DocumentRangeFormattingEd
     }
 }
 
-export class OnTypeFormattingProvider implements vscode.OnTypeFormattingEditProvider {
+export class OnTypeFormattingProvider {
     public provideOnTypeFormattingEdits(
-        document: vscode.TextDocument,
-        position: vscode.Position,
-        ch: string
-    ): vscode.TextEdit[] {
-        const edits: vscode.TextEdit[] = [];
+        document: TextLines,
+        position: LinePosition,
+        ch: string,
+        config: FrscriptConfig
+    ): TextEdit[] {
+        const edits: TextEdit[] = [];
 
         // Auto-indent after opening brace
         if (ch === '{') {
             const line = document.lineAt(position.line);
             const { text } = line;
-            const config = getConfig();
             
             // Add newline and indent
             const currentIndent = text.match(/^\s*/)?.[0] || '';
             const newIndent = currentIndent + createIndent(1, config.formatting.insertSpaces, config.formatting.indentSize);
             
-            const edit = vscode.TextEdit.insert(
-                new vscode.Position(position.line + 1, 0),
+            const edit = TextEdit.insert(
+                Position.create(position.line + 1, 0),
                 newIndent
             );
             edits.push(edit);
@@ -143,12 +133,11 @@ export class OnTypeFormattingProvider implements vscode.OnTypeFormattingEditProv
             const { text } = line;
             
             if (text.trim().endsWith('{')) {
-                const config = getConfig();
                 const currentIndent = text.match(/^\s*/)?.[0] || '';
                 const closeBrace = currentIndent + '}';
                 
-                const edit = vscode.TextEdit.insert(
-                    new vscode.Position(position.line + 1, 0),
+                const edit = TextEdit.insert(
+                    Position.create(position.line + 1, 0),
                     closeBrace + '\n'
                 );
                 edits.push(edit);
@@ -158,21 +147,3 @@ export class OnTypeFormattingProvider implements vscode.OnTypeFormattingEditProv
         return edits;
     }
 }
-
-export function registerFormattingProviders(context: vscode.ExtensionContext): void {
-    context.subscriptions.push(
-        vscode.languages.registerDocumentFormattingEditProvider(
-            'frscript',
-            new EnhancedFormattingProvider()
-        ),
-        vscode.languages.registerDocumentRangeFormattingEditProvider(
-            'frscript',
-            new RangeFormattingProvider()
-        ),
-        vscode.languages.registerOnTypeFormattingEditProvider(
-            'frscript',
-            new OnTypeFormattingProvider(),
-            '{', '\n', '}'
-        )
-    );
-}
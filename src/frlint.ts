@@ -0,0 +1,322 @@
+#!/usr/bin/env node
+// Command-line checker running the same rules as the editor: core diagnostics, Python interop and metrics.
+// Text output matches the $frscript problem matcher: `file:line:col: severity: message`.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { Diagnostic, DiagnosticSeverity } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { DocumentAnalysis } from './analysisCache';
+import { computeDiagnostics } from './diagnostics';
+import { applySuppressions } from './suppressions';
+import { applyLintRules, lintConfigErrorsFor, lintRulesFor } from './lintConfig';
+import { diagnosticCodes } from './diagnosticCodes';
+import { PythonInteropProvider, createPythonInteropDiagnostics } from './pythonInterop';
+import { MetricsProvider } from './analysis';
+import { isWorkspaceBinding } from './workspaceIndex';
+import { FrscriptConfig, configSection, findFrFiles, globToRegExp, readConfig } from './utils';
+
+type OutputFormat = 'text' | 'json' | 'sarif';
+
+interface LintOptions {
+    format: OutputFormat;
+    minSeverity: DiagnosticSeverity;
+    patterns: string[];
+}
+
+interface LintedFile {
+    file: string;
+    document: TextDocument;
+    analysis: DocumentAnalysis;
+}
+
+interface FileResult {
+    file: string;
+    diagnostics: Diagnostic[];
+}
+
+const usage = `Usage: frlint [options] <file|directory|glob>...
+
+Options:
+  --format <text|json|sarif>                  Output format (default: text)
+  --min-severity <error|warning|info|hint>    Lowest severity to report (default: warning)
+  -h, --help                                  Show this help
+
+Directories are searched recursively for .fr files. Rules are configured by .frlint.json files
+next to the linted files or in their parent directories. Top-level functions, structs and globals
+of each linted file count as declared in the others. Exits with 1 when errors are found, and with 2
+when a .frlint.json file cannot be read.`;
+
+const severityNames: Record<string, DiagnosticSeverity> = {
+    error: DiagnosticSeverity.Error,
+    warning: DiagnosticSeverity.Warning,
+    info: DiagnosticSeverity.Information,
+    hint: DiagnosticSeverity.Hint
+};
+
+function severityName(severity: DiagnosticSeverity | undefined): string {
+    switch (severity) {
+        case DiagnosticSeverity.Warning:
+            return 'warning';
+        case DiagnosticSeverity.Information:
+            return 'info';
+        case DiagnosticSeverity.Hint:
+            return 'hint';
+        default:
+            return 'error';
+    }
+}
+
+// The $frscript problem matcher reads error, warning and info, so hints are shown as info
+function matcherSeverityName(severity: DiagnosticSeverity | undefined): string {
+    const name = severityName(severity);
+    return name === 'hint' ? 'info' : name;
+}
+
+// Where the diagnostic codes are documented
+const homepage = 'https://github.com/Omena0/fr';
+
+class UsageError extends Error {}
+
+function parseArgs(args: string[]): LintOptions {
+    const options: LintOptions = { format: 'text', minSeverity: DiagnosticSeverity.Warning, patterns: [] };
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        const [flag, inlineValue] = arg.startsWith('--') ? arg.split(/=(.*)/s) : [arg, undefined];
+        const value = () => inlineValue ?? args[++i];
+
+        if (flag === '--format') {
+            const format = value();
+            if (format !== 'text' && format !== 'json' && format !== 'sarif') {
+                throw new UsageError(`unknown format '${format}'`);
+            }
+            options.format = format;
+        } else if (flag === '--min-severity') {
+            const name = value();
+            if (!severityNames[name]) {
+                throw new UsageError(`unknown severity '${name}'`);
+            }
+            options.minSeverity = severityNames[name];
+        } else if (flag.startsWith('-')) {
+            throw new UsageError(`unknown option '${flag}'`);
+        } else {
+            options.patterns.push(arg);
+        }
+    }
+
+    if (options.patterns.length === 0) {
+        throw new UsageError('no files given');
+    }
+    return options;
+}
+
+// Expand a command-line argument: a file, a directory or a glob pattern
+function expandPattern(pattern: string): string[] {
+    if (fs.existsSync(pattern)) {
+        return fs.statSync(pattern).isDirectory() ? findFrFiles(pattern) : [pattern];
+    }
+    if (!/[*?{]/.test(pattern)) {
+        return [];
+    }
+
+    // Walk from the longest directory prefix without wildcards
+    const segments = pattern.replace(/\\/g, '/').split('/');
+    const firstGlob = segments.findIndex(segment => /[*?{]/.test(segment));
+    const base = segments.slice(0, firstGlob).join('/') || '.';
+    if (!fs.existsSync(base) || !fs.statSync(base).isDirectory()) {
+        return [];
+    }
+
+    const matcher = globToRegExp(segments.slice(firstGlob).join('/'));
+    return findFrFiles(base).filter(file => matcher.test(path.relative(base, file).replace(/\\/g, '/')));
+}
+
+function readFile(file: string): LintedFile {
+    const uri = pathToFileURL(path.resolve(file)).toString();
+    const text = fs.readFileSync(file, 'utf8');
+    return { file, document: TextDocument.create(uri, 'frscript', 1, text), analysis: new DocumentAnalysis(uri, 1, text) };
+}
+
+// Files declaring each top-level function, struct and global, which the other linted files can use
+function sharedDeclarations(files: LintedFile[]): Map<string, Set<string>> {
+    const declarations = new Map<string, Set<string>>();
+    for (const { document, analysis } of files) {
+        for (const binding of analysis.scopes.root.bindings.filter(isWorkspaceBinding)) {
+            const uris = declarations.get(binding.name) ?? new Set<string>();
+            uris.add(document.uri);
+            declarations.set(binding.name, uris);
+        }
+    }
+    return declarations;
+}
+
+function lintFile(
+    { file, document, analysis }: LintedFile,
+    shared: Map<string, Set<string>>,
+    config: FrscriptConfig,
+    pythonProvider: PythonInteropProvider,
+    metricsProvider: MetricsProvider
+): Diagnostic[] {
+    const declaredElsewhere = (name: string) => [...shared.get(name) ?? []].some(uri => uri !== document.uri);
+    const diagnostics = applySuppressions([
+        ...computeDiagnostics(document, analysis, config, declaredElsewhere),
+        ...createPythonInteropDiagnostics(document, pythonProvider),
+        ...metricsProvider.createMetricsDiagnostics(document, config)
+    ], analysis.suppressions);
+    return applyLintRules(diagnostics, lintRulesFor(file)).sort((a, b) => a.range.start.line - b.range.start.line || a.range.start.character - b.range.start.character);
+}
+
+function formatText(results: FileResult[]): string {
+    const lines: string[] = [];
+    for (const { file, diagnostics } of results) {
+        for (const diagnostic of diagnostics) {
+            const { line, character } = diagnostic.range.start;
+            lines.push(`${file}:${line + 1}:${character + 1}: ${matcherSeverityName(diagnostic.severity)}: ${diagnostic.message}`);
+        }
+    }
+    return lines.join('\n');
+}
+
+function formatJson(results: FileResult[]): string {
+    const entries = results.flatMap(({ file, diagnostics }) => diagnostics.map(diagnostic => ({
+        file,
+        line: diagnostic.range.start.line + 1,
+        column: diagnostic.range.start.character + 1,
+        endLine: diagnostic.range.end.line + 1,
+        endColumn: diagnostic.range.end.character + 1,
+        severity: severityName(diagnostic.severity),
+        code: diagnostic.code ?? null,
+        source: diagnostic.source ?? 'frscript',
+        message: diagnostic.message
+    })));
+    return JSON.stringify(entries, null, 2);
+}
+
+// Extension version from the package manifest next to the compiled output
+function toolVersion(): string | undefined {
+    try {
+        return JSON.parse(fs.readFileSync(path.join(__dirname, '..', 'package.json'), 'utf8')).version;
+    } catch {
+        return undefined;
+    }
+}
+
+// SARIF 2.1.0, as consumed by GitHub code scanning and other CI dashboards
+function formatSarif(results: FileResult[]): string {
+    const level = (severity: DiagnosticSeverity | undefined) =>
+        severity === DiagnosticSeverity.Warning ? 'warning' :
+        severity === DiagnosticSeverity.Information || severity === DiagnosticSeverity.Hint ? 'note' :
+        'error';
+
+    const ruleIds = new Set<string>();
+    const sarifResults = results.flatMap(({ file, diagnostics }) => diagnostics.map(diagnostic => {
+        if (diagnostic.code !== undefined) {
+            ruleIds.add(String(diagnostic.code));
+        }
+        return {
+            ruleId: diagnostic.code !== undefined ? String(diagnostic.code) : undefined,
+            level: level(diagnostic.severity),
+            message: { text: diagnostic.message },
+            locations: [{
+                physicalLocation: {
+                    artifactLocation: { uri: file.replace(/\\/g, '/') },
+                    region: {
+                        startLine: diagnostic.range.start.line + 1,
+                        startColumn: diagnostic.range.start.character + 1,
+                        endLine: diagnostic.range.end.line + 1,
+                        endColumn: diagnostic.range.end.character + 1
+                    }
+                }
+            }]
+        };
+    }));
+
+    return JSON.stringify({
+        $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+        version: '2.1.0',
+        runs: [{
+            tool: {
+                driver: {
+                    name: 'frlint',
+                    version: toolVersion(),
+                    informationUri: homepage,
+                    rules: [...ruleIds].sort().map(id => ({
+                        id,
+                        shortDescription: diagnosticCodes[id] ? { text: diagnosticCodes[id] } : undefined,
+                        helpUri: `${homepage}#diagnostic-codes`
+                    }))
+                }
+            },
+            results: sarifResults
+        }]
+    }, null, 2);
+}
+
+function main(args: string[]): number {
+    if (args.includes('-h') || args.includes('--help')) {
+        console.log(usage);
+        return 0;
+    }
+
+    let options: LintOptions;
+    try {
+        options = parseArgs(args);
+    } catch (error) {
+        if (error instanceof UsageError) {
+            console.error(`frlint: ${error.message}\n\n${usage}`);
+            return 2;
+        }
+        throw error;
+    }
+
+    const files = new Set<string>();
+    for (const pattern of options.patterns) {
+        const matches = expandPattern(pattern);
+        if (matches.length === 0) {
+            console.error(`frlint: no .fr files match '${pattern}'`);
+        }
+        matches.forEach(file => files.add(path.relative(process.cwd(), path.resolve(file)) || file));
+    }
+    if (files.size === 0) {
+        return 2;
+    }
+
+    // Linting with half the configured rules would pass or fail CI for the wrong reasons
+    const configErrors = new Map<string, string>();
+    for (const file of files) {
+        lintConfigErrorsFor(file).forEach(({ file: configFile, error }) => configErrors.set(configFile, error));
+    }
+    if (configErrors.size > 0) {
+        configErrors.forEach((error, configFile) => console.error(`frlint: ${path.relative(process.cwd(), configFile) || configFile}: ${error}`));
+        return 2;
+    }
+
+    const config = readConfig(configSection({}));
+    const pythonProvider = new PythonInteropProvider(process.cwd());
+    const metricsProvider = new MetricsProvider();
+
+    const linted = [...files].sort().map(readFile);
+    const shared = sharedDeclarations(linted);
+
+    const results: FileResult[] = [];
+    for (const lintedFile of linted) {
+        const { file } = lintedFile;
+        const diagnostics = lintFile(lintedFile, shared, config, pythonProvider, metricsProvider)
+            .filter(diagnostic => (diagnostic.severity ?? DiagnosticSeverity.Error) <= options.minSeverity);
+        results.push({ file, diagnostics });
+    }
+
+    const output = options.format === 'json' ? formatJson(results)
+        : options.format === 'sarif' ? formatSarif(results)
+        : formatText(results);
+    if (output) {
+        console.log(output);
+    }
+
+    const hasErrors = results.some(result => result.diagnostics.some(d => (d.severity ?? DiagnosticSeverity.Error) === DiagnosticSeverity.Error));
+    return hasErrors ? 1 : 0;
+}
+
+process.exitCode = main(process.argv.slice(2));
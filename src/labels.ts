@@ -0,0 +1,91 @@
+// `#label` declarations and the `goto` statements that jump to them. Labels live in their own
+// namespace and are local to the function body, or the top level of the file, declaring them.
+
+import { Identifier, Node, Program, walk } from './ast';
+
+export interface Label {
+    name: string;
+    declaration: Identifier;
+    references: Identifier[];
+}
+
+export interface LabelScope {
+    // Function body or program the labels belong to
+    root: Node;
+    labels: Map<string, Label>;
+    // Gotos naming a label the scope does not declare
+    unresolved: Identifier[];
+}
+
+export interface LabelOccurrence {
+    identifier: Identifier;
+    scope: LabelScope;
+    label?: Label;
+}
+
+function collectScope(root: Node, scopes: LabelScope[]) {
+    const scope: LabelScope = { root, labels: new Map(), unresolved: [] };
+    const gotos: Identifier[] = [];
+    scopes.push(scope);
+
+    walk(root, node => {
+        if (node.kind === 'FunctionDeclaration' && node !== root) {
+            if (node.body) {
+                collectScope(node.body, scopes);
+            }
+            return false;
+        }
+        if (node.kind === 'LabelStatement' && !scope.labels.has(node.name.name)) {
+            scope.labels.set(node.name.name, { name: node.name.name, declaration: node.name, references: [] });
+        } else if (node.kind === 'GotoStatement') {
+            gotos.push(node.label);
+        }
+        return undefined;
+    });
+
+    // Gotos may jump forward, so they are resolved once every label is known
+    for (const identifier of gotos) {
+        const label = scope.labels.get(identifier.name);
+        if (label) {
+            label.references.push(identifier);
+        } else {
+            scope.unresolved.push(identifier);
+        }
+    }
+}
+
+export function collectLabels(program: Program): LabelScope[] {
+    const scopes: LabelScope[] = [];
+    collectScope(program, scopes);
+    return scopes;
+}
+
+/** The label declared or jumped to at an offset. */
+export function labelAt(scopes: LabelScope[], offset: number): LabelOccurrence | undefined {
+    const contains = (identifier: Identifier) => identifier.span.start <= offset && offset <= identifier.span.end;
+    for (const scope of scopes) {
+        for (const label of scope.labels.values()) {
+            const identifier = [label.declaration, ...label.references].find(contains);
+            if (identifier) {
+                return { identifier, scope, label };
+            }
+        }
+        const unresolved = scope.unresolved.find(contains);
+        if (unresolved) {
+            return { identifier: unresolved, scope };
+        }
+    }
+    return undefined;
+}
+
+/** The label scope whose code contains an offset, preferring the innermost function. */
+export function labelScopeAt(scopes: LabelScope[], offset: number): LabelScope | undefined {
+    let found: LabelScope | undefined;
+    for (const scope of scopes) {
+        const { start, end } = scope.root.span;
+        if (start <= offset && offset <= end && (!found || found.root.span.start <= start)) {
+            found = scope;
+        }
+    }
+    return found;
+}
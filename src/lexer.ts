@@ -0,0 +1,314 @@
+// Tokenizer for Frscript source text.
+// Comments are not emitted as tokens; they are collected separately so docstrings can be attached.
+
+export type TokenKind =
+    | 'identifier'
+    | 'keyword'
+    | 'int'
+    | 'float'
+    | 'string'
+    | 'fstring'
+    | 'bytes'
+    | 'operator'
+    | 'newline'
+    | 'directive'
+    | 'bytecode'
+    | 'raw'
+    | 'invalid'
+    | 'eof';
+
+export interface Token {
+    kind: TokenKind;
+    text: string;
+    start: number;
+    end: number;
+    // Set for strings that are missing their closing quote
+    unterminated?: boolean;
+}
+
+export interface Comment {
+    text: string;
+    start: number;
+    end: number;
+    // `///` documentation comment
+    isDoc: boolean;
+}
+
+export interface LexResult {
+    tokens: Token[];
+    comments: Comment[];
+}
+
+export const reservedWords = new Set([
+    'if', 'elif', 'else', 'while', 'for', 'in', 'switch', 'case', 'default', 'break', 'continue',
+    'return', 'const', 'struct', 'try', 'except', 'raise', 'goto', 'global', 'py_import', 'from',
+    'as', 'c_import', 'c_link', 'assert', 'and', 'or', 'not', 'true', 'false', 'null', 'none', 'None'
+]);
+
+// Longest operators first so greedy matching works
+const operators = [
+    '<<=', '>>=', '**=',
+    '**', '..', '==', '!=', '<=', '>=', '&&', '||', '<<', '>>', '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '->',
+    '+', '-', '*', '/', '%', '=', '<', '>', '!', '&', '|', '^', '~', '?', ':', '.', ',', ';', '(', ')', '[', ']', '{', '}', '@'
+];
+
+// Directives whose remaining line content is kept as a single raw token
+const rawLineDirectives = new Set(['pragma', 'global']);
+
+function isIdentifierStart(char: string): boolean {
+    return /[A-Za-z_]/.test(char);
+}
+
+function isIdentifierPart(char: string): boolean {
+    return /[A-Za-z0-9_]/.test(char);
+}
+
+function isDigit(char: string): boolean {
+    return char >= '0' && char <= '9';
+}
+
+export function tokenize(text: string, start: number = 0, end: number = text.length): LexResult {
+    const tokens: Token[] = [];
+    const comments: Comment[] = [];
+    let pos = start;
+
+    const push = (kind: TokenKind, tokenStart: number, tokenEnd: number, extra?: Partial<Token>) => {
+        tokens.push({ kind, text: text.substring(tokenStart, tokenEnd), start: tokenStart, end: tokenEnd, ...extra });
+    };
+
+    // Read to end of line (exclusive of the newline) as a raw, trimmed token
+    const readRawLine = () => {
+        let lineEnd = pos;
+        while (lineEnd < end && text[lineEnd] !== '\n') {
+            lineEnd++;
+        }
+        let rawStart = pos;
+        while (rawStart < lineEnd && (text[rawStart] === ' ' || text[rawStart] === '\t')) {
+            rawStart++;
+        }
+        // Strip trailing comment and whitespace
+        let rawEnd = lineEnd;
+        const commentIndex = text.substring(rawStart, lineEnd).indexOf('//');
+        if (commentIndex >= 0) {
+            rawEnd = rawStart + commentIndex;
+        }
+        while (rawEnd > rawStart && /\s/.test(text[rawEnd - 1])) {
+            rawEnd--;
+        }
+        if (rawEnd > rawStart) {
+            push('raw', rawStart, rawEnd);
+        }
+        pos = rawEnd;
+    };
+
+    const readString = (quoteStart: number, kind: TokenKind) => {
+        const quote = text[quoteStart];
+        let i = quoteStart + 1;
+        let closed = false;
+        let braceDepth = 0;
+
+        while (i < end) {
+            const char = text[i];
+            if (char === '\\') {
+                i += 2;
+                continue;
+            }
+            if (char === '\n') {
+                break;
+            }
+            // Quotes inside f-string interpolations, of either kind, belong to the embedded expression
+            if (kind === 'fstring') {
+                if (braceDepth === 0 && (char === '{' || char === '}') && text[i + 1] === char) {
+                    // `{{` and `}}` are literal braces
+                    i += 2;
+                    continue;
+                }
+                if (char === '{') {
+                    braceDepth++;
+                } else if (char === '}' && braceDepth > 0) {
+                    braceDepth--;
+                } else if ((char === '"' || char === "'") && braceDepth > 0) {
+                    const close = text.indexOf(char, i + 1);
+                    if (close >= 0 && close < end && !text.substring(i, close).includes('\n')) {
+                        i = close + 1;
+                        continue;
+                    }
+                }
+            }
+            if (char === quote) {
+                closed = true;
+                i++;
+                break;
+            }
+            i++;
+        }
+
+        const tokenEnd = Math.min(i, end);
+        push(kind, pos, tokenEnd, closed ? undefined : { unterminated: true });
+        pos = tokenEnd;
+    };
+
+    while (pos < end) {
+        const char = text[pos];
+
+        if (char === '\n') {
+            push('newline', pos, pos + 1);
+            pos++;
+            continue;
+        }
+
+        if (char === ' ' || char === '\t' || char === '\r') {
+            pos++;
+            continue;
+        }
+
+        // Comments
+        if (char === '/' && text[pos + 1] === '/') {
+            let lineEnd = pos;
+            while (lineEnd < end && text[lineEnd] !== '\n') {
+                lineEnd++;
+            }
+            const commentText = text.substring(pos, lineEnd).replace(/\r$/, '');
+            comments.push({
+                text: commentText,
+                start: pos,
+                end: pos + commentText.length,
+                isDoc: commentText.startsWith('///')
+            });
+            pos = lineEnd;
+            continue;
+        }
+
+        // Directives: #label, #pragma, #global, #bytecode ... #bytecode end
+        if (char === '#' && isIdentifierStart(text[pos + 1] || '')) {
+            let nameEnd = pos + 1;
+            while (nameEnd < end && isIdentifierPart(text[nameEnd])) {
+                nameEnd++;
+            }
+            const name = text.substring(pos + 1, nameEnd);
+
+            if (name === 'bytecode') {
+                const blockEnd = /^[ \t]*#bytecode[ \t]+end\b.*$/m;
+                const rest = text.substring(nameEnd, end);
+                const match = blockEnd.exec(rest);
+                const tokenEnd = match ? nameEnd + match.index + match[0].length : end;
+                push('bytecode', pos, tokenEnd);
+                pos = tokenEnd;
+                continue;
+            }
+
+            push('directive', pos, nameEnd);
+            pos = nameEnd;
+            if (rawLineDirectives.has(name)) {
+                readRawLine();
+            }
+            continue;
+        }
+
+        if (isIdentifierStart(char)) {
+            // String prefixes: f"..." and b"..."
+            if ((char === 'f' || char === 'b') && (text[pos + 1] === '"' || text[pos + 1] === "'")) {
+                readString(pos + 1, char === 'f' ? 'fstring' : 'bytes');
+                continue;
+            }
+
+            let identEnd = pos + 1;
+            while (identEnd < end && isIdentifierPart(text[identEnd])) {
+                identEnd++;
+            }
+            const word = text.substring(pos, identEnd);
+            push(reservedWords.has(word) ? 'keyword' : 'identifier', pos, identEnd);
+            pos = identEnd;
+
+            // C interop takes the rest of the line verbatim (header paths, library names)
+            if (word === 'c_import' || word === 'c_link') {
+                readRawLine();
+            }
+            continue;
+        }
+
+        if (isDigit(char)) {
+            let numEnd = pos;
+            let isFloat = false;
+
+            if (char === '0' && /[xXbBoO]/.test(text[pos + 1] || '')) {
+                numEnd = pos + 2;
+                while (numEnd < end && /[0-9a-fA-F_]/.test(text[numEnd])) {
+                    numEnd++;
+                }
+            } else {
+                while (numEnd < end && (isDigit(text[numEnd]) || text[numEnd] === '_')) {
+                    numEnd++;
+                }
+                // Fractional part, but not the range operator `0..10`
+                if (text[numEnd] === '.' && isDigit(text[numEnd + 1] || '')) {
+                    isFloat = true;
+                    numEnd++;
+                    while (numEnd < end && (isDigit(text[numEnd]) || text[numEnd] === '_')) {
+                        numEnd++;
+                    }
+                }
+                if (/[eE]/.test(text[numEnd] || '') && /[0-9+-]/.test(text[numEnd + 1] || '')) {
+                    let expEnd = numEnd + 1;
+                    if (text[expEnd] === '+' || text[expEnd] === '-') {
+                        expEnd++;
+                    }
+                    if (isDigit(text[expEnd] || '')) {
+                        isFloat = true;
+                        numEnd = expEnd;
+                        while (numEnd < end && isDigit(text[numEnd])) {
+                            numEnd++;
+                        }
+                    }
+                }
+            }
+
+            push(isFloat ? 'float' : 'int', pos, numEnd);
+            pos = numEnd;
+            continue;
+        }
+
+        if (char === '"' || char === "'") {
+            readString(pos, 'string');
+            continue;
+        }
+
+        const op = operators.find(candidate => text.startsWith(candidate, pos) && pos + candidate.length <= end);
+        if (op) {
+            push('operator', pos, pos + op.length);
+            pos += op.length;
+            continue;
+        }
+
+        push('invalid', pos, pos + 1);
+        pos++;
+    }
+
+    tokens.push({ kind: 'eof', text: '', start: end, end });
+    return { tokens, comments };
+}
+
+// Offsets of the first character of every line, for offset <-> line conversions
+export function computeLineStarts(text: string): number[] {
+    const starts = [0];
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === '\n') {
+            starts.push(i + 1);
+        }
+    }
+    return starts;
+}
+
+export function lineAt(lineStarts: number[], offset: number): number {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+        const mid = (low + high + 1) >> 1;
+        if (lineStarts[mid] <= offset) {
+            low = mid;
+        } else {
+            high = mid - 1;
+        }
+    }
+    return low;
+}
@@ -0,0 +1,129 @@
+// Project lint configuration: `.frlint.json` files found in the directory of a source file and its parents.
+// Files further up are applied first, so the closest one wins; `"root": true` stops the search.
+//
+// {
+//     "root": true,
+//     "rules": { "unused-variable": "warning", "missing-default": "off" },
+//     "overrides": [{ "files": ["examples/**"], "rules": { "implicit-cast": "off" } }]
+// }
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Diagnostic, DiagnosticSeverity } from 'vscode-languageserver';
+import { globToRegExp } from './utils';
+
+export const lintConfigFileName = '.frlint.json';
+
+export type RuleSetting = 'off' | 'error' | 'warning' | 'info' | 'hint';
+
+export interface LintOverride {
+    // Globs relative to the directory of the config file
+    files: string | string[];
+    rules: Record<string, RuleSetting>;
+}
+
+export interface LintConfigFile {
+    root?: boolean;
+    rules?: Record<string, RuleSetting>;
+    overrides?: LintOverride[];
+}
+
+interface LoadedConfig {
+    file: string;
+    config?: LintConfigFile;
+    error?: string;
+}
+
+const ruleSeverities: Record<Exclude<RuleSetting, 'off'>, DiagnosticSeverity> = {
+    error: DiagnosticSeverity.Error,
+    warning: DiagnosticSeverity.Warning,
+    info: DiagnosticSeverity.Information,
+    hint: DiagnosticSeverity.Hint
+};
+
+// Config file of each directory searched so far, undefined when it has none
+const configCache = new Map<string, LoadedConfig | undefined>();
+
+/** Read a config file, keeping the parse error when it is malformed. */
+export function readLintConfigFile(file: string): LoadedConfig {
+    try {
+        const config = JSON.parse(fs.readFileSync(file, 'utf8'));
+        if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+            return { file, error: 'expected an object' };
+        }
+        return { file, config };
+    } catch (error) {
+        return { file, error: error instanceof Error ? error.message : String(error) };
+    }
+}
+
+function configIn(dir: string): LoadedConfig | undefined {
+    if (!configCache.has(dir)) {
+        const file = path.join(dir, lintConfigFileName);
+        configCache.set(dir, fs.existsSync(file) ? readLintConfigFile(file) : undefined);
+    }
+    return configCache.get(dir);
+}
+
+/** Forget the config files read so far, after one was created, changed or deleted. */
+export function clearLintConfigCache() {
+    configCache.clear();
+}
+
+// Config files that apply to a source file, furthest first, including unreadable ones
+function configsFor(file: string): LoadedConfig[] {
+    const configs: LoadedConfig[] = [];
+    for (let dir = path.dirname(path.resolve(file)); ; dir = path.dirname(dir)) {
+        const loaded = configIn(dir);
+        if (loaded) {
+            configs.unshift(loaded);
+            if (loaded.config?.root) {
+                break;
+            }
+        }
+        if (path.dirname(dir) === dir) {
+            break;
+        }
+    }
+    return configs;
+}
+
+/** Config files for a source file that could not be read, with the reason. */
+export function lintConfigErrorsFor(file: string): { file: string, error: string }[] {
+    return configsFor(file).flatMap(loaded => loaded.error ? [{ file: loaded.file, error: loaded.error }] : []);
+}
+
+/** The rule settings for a source file, from every config file that applies to it. */
+export function lintRulesFor(file: string): Map<string, RuleSetting> {
+    const configs = configsFor(file).filter(loaded => loaded.config);
+
+    const rules = new Map<string, RuleSetting>();
+    const apply = (settings: Record<string, RuleSetting> | undefined) =>
+        Object.entries(settings ?? {}).forEach(([code, setting]) => rules.set(code, setting));
+
+    for (const { file: configFile, config } of configs) {
+        apply(config!.rules);
+        const relative = path.relative(path.dirname(configFile), path.resolve(file)).replace(/\\/g, '/');
+        for (const override of config!.overrides ?? []) {
+            const globs = Array.isArray(override.files) ? override.files : [override.files];
+            if (globs.some(glob => globToRegExp(glob).test(relative))) {
+                apply(override.rules);
+            }
+        }
+    }
+    return rules;
+}
+
+/** Drop disabled rules and change the severity of the rest as configured. */
+export function applyLintRules(diagnostics: Diagnostic[], rules: Map<string, RuleSetting>): Diagnostic[] {
+    if (rules.size === 0) {
+        return diagnostics;
+    }
+    return diagnostics.flatMap(diagnostic => {
+        const setting = diagnostic.code !== undefined ? rules.get(String(diagnostic.code)) : undefined;
+        if (setting === 'off') {
+            return [];
+        }
+        return setting && ruleSeverities[setting] ? [{ ...diagnostic, severity: ruleSeverities[setting] }] : [diagnostic];
+    });
+}
@@ -0,0 +1,147 @@
+import * as vscode from 'vscode';
+import { MetricsProvider } from './analysis';
+import { findFunctionBody, readConfig } from './utils';
+
+// Editor presentation of function metrics: the status bar item and the report webview
+export class MetricsView {
+    private statusBarItem: vscode.StatusBarItem;
+
+    constructor(private metricsProvider: MetricsProvider) {
+        this.statusBarItem = vscode.window.createStatusBarItem(
+            vscode.StatusBarAlignment.Right,
+            100
+        );
+        this.statusBarItem.command = 'frscript.showMetrics';
+    }
+
+    public updateStatusBar(document: vscode.TextDocument, position: vscode.Position) {
+        const config = readConfig(vscode.workspace.getConfiguration('frscript'));
+        
+        if (!config.metrics.enabled) {
+            this.statusBarItem.hide();
+            return;
+        }
+
+        const metrics = this.metricsProvider.calculateFileMetrics(document);
+        
+        // Find metrics for the current function
+        const currentMetrics = metrics.find(m => {
+            const body = findFunctionBody(document, m.line);
+            return body && position.line >= body.start && position.line <= body.end;
+        });
+
+        if (currentMetrics) {
+            const complexityIcon = currentMetrics.complexity > config.metrics.maxComplexity ? '⚠️' : '✓';
+            const lengthIcon = currentMetrics.functionLength > config.metrics.maxFunctionLength ? '⚠️' : '✓';
+            const depthIcon = currentMetrics.nestingDepth > config.metrics.maxNestingDepth ? '⚠️' : '✓';
+
+            this.statusBarItem.text = `$(symbol-method) ${currentMetrics.name} | ` +
+                `${complexityIcon} CC: ${currentMetrics.complexity} | ` +
+                `${lengthIcon} Len: ${currentMetrics.functionLength} | ` +
+                `${depthIcon} Depth: ${currentMetrics.nestingDepth}`;
+            this.statusBarItem.tooltip = 'Function Metrics:\n' +
+                `Cyclomatic Complexity: ${currentMetrics.complexity}\n` +
+                `Function Length: ${currentMetrics.functionLength} lines\n` +
+                `Max Nesting Depth: ${currentMetrics.nestingDepth}`;
+            this.statusBarItem.show();
+        } else {
+            this.statusBarItem.hide();
+        }
+    }
+
+    public showMetricsReport(document: vscode.TextDocument) {
+        const metrics = this.metricsProvider.calculateFileMetrics(document);
+        
+        const panel = vscode.window.createWebviewPanel(
+            'frscriptMetrics',
+            'Frscript Code Metrics',
+            vscode.ViewColumn.Beside,
+            {}
+        );
+
+        let totalComplexity = 0;
+        let totalLines = 0;
+        let maxDepth = 0;
+
+        metrics.forEach(m => {
+            totalComplexity += m.complexity;
+            totalLines += m.functionLength;
+            maxDepth = Math.max(maxDepth, m.nestingDepth);
+        });
+
+        const avgComplexity = metrics.length > 0 ? (totalComplexity / metrics.length).toFixed(2) : '0';
+
+        const html = `
+            <!DOCTYPE html>
+            <html>
+            <head>
+                <style>
+                    body { 
+                        font-family: var(--vscode-font-family);
+                        padding: 20px;
+                        color: var(--vscode-foreground);
+                    }
+                    h1 { color: var(--vscode-textLink-foreground); }
+                    table {
+                        width: 100%;
+                        border-collapse: collapse;
+                        margin: 20px 0;
+                    }
+                    th, td {
+                        padding: 12px;
+                        text-align: left;
+                        border-bottom: 1px solid var(--vscode-panel-border);
+                    }
+                    th {
+                        background: var(--vscode-editor-background);
+                        font-weight: bold;
+                    }
+                    .warning { color: var(--vscode-editorWarning-foreground); }
+                    .good { color: var(--vscode-terminal-ansiGreen); }
+                    .summary {
+                        background: var(--vscode-editor-background);
+                        padding: 15px;
+                        border-radius: 5px;
+                        margin: 20px 0;
+                    }
+                </style>
+            </head>
+            <body>
+                <h1>📊 Code Metrics Report</h1>
+                <div class="summary">
+                    <h2>Summary</h2>
+                    <p><strong>Total Functions:</strong> ${metrics.length}</p>
+                    <p><strong>Average Complexity:</strong> ${avgComplexity}</p>
+                    <p><strong>Total Lines:</strong> ${totalLines}</p>
+                    <p><strong>Max Nesting Depth:</strong> ${maxDepth}</p>
+                </div>
+                <h2>Function Details</h2>
+                <table>
+                    <tr>
+                        <th>Function</th>
+                        <th>Complexity</th>
+                        <th>Length</th>
+                        <th>Nesting</th>
+                        <th>Line</th>
+                    </tr>
+                    ${metrics.map(m => `
+                        <tr>
+                            <td><strong>${m.name}</strong></td>
+                            <td class="${m.complexity > 10 ? 'warning' : 'good'}">${m.complexity}</td>
+                            <td class="${m.functionLength > 50 ? 'warning' : 'good'}">${m.functionLength}</td>
+                            <td class="${m.nestingDepth > 4 ? 'warning' : 'good'}">${m.nestingDepth}</td>
+                            <td>${m.line + 1}</td>
+                        </tr>
+                    `).join('')}
+                </table>
+            </body>
+            </html>
+        `;
+
+        panel.webview.html = html;
+    }
+
+    public dispose() {
+        this.statusBarItem.dispose();
+    }
+}
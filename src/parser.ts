@@ -0,0 +1,1489 @@
+import {
+    Assignment, AssertStatement, Block, CallExpression, DictEntry, Decorator, ExceptClause, Expression,
+    ForStatement, FStringInterpolation, FunctionDeclaration, Identifier, IfStatement, KeywordArgument,
+    Parameter, Program, PyImport, Span, Statement, StructDeclaration, StructField, SwitchCase,
+    SwitchStatement, TryStatement, TypeRef, VariableDeclaration, walk
+} from './ast';
+import { Comment, Token, computeLineStarts, lineAt, tokenize } from './lexer';
+
+export interface ParseError {
+    message: string;
+    span: Span;
+}
+
+export interface ParseResult {
+    program: Program;
+    tokens: Token[];
+    comments: Comment[];
+    errors: ParseError[];
+    lineStarts: number[];
+}
+
+const assignmentOperators = new Set(['=', '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '<<=', '>>=', '**=']);
+const comparisonOperators = new Set(['==', '!=', '<', '>', '<=', '>=']);
+
+// Characters allowed in an f-string format spec: {value:>8.2f}
+const formatSpecPattern = /^[<>^=+\-#0-9.,_a-zA-Z%]*$/;
+
+class Parser {
+    private pos = 0;
+    // Bracket nesting; newlines are insignificant while inside (), [] or literal {}
+    private depth = 0;
+    private blockDepth = 0;
+    // Disables `{...}` literals so `if x {` parses the brace as the block
+    private noBraceLiteral = false;
+    private errorLines = new Set<number>();
+
+    constructor(
+        private text: string,
+        private tokens: Token[],
+        private errors: ParseError[],
+        private lineStarts: number[]
+    ) {}
+
+    public parseProgram(): Program {
+        const body = this.parseStatementList(() => false);
+        return { kind: 'Program', body, span: { start: 0, end: this.text.length } };
+    }
+
+    // ---- token helpers ----
+
+    private peek(offset: number = 0): Token {
+        let i = this.pos;
+        let count = 0;
+        while (true) {
+            const token = this.tokens[i];
+            if (token.kind === 'eof') {
+                return token;
+            }
+            if (token.kind === 'newline' && this.depth > 0) {
+                i++;
+                continue;
+            }
+            if (count === offset) {
+                return token;
+            }
+            count++;
+            i++;
+        }
+    }
+
+    private next(): Token {
+        while (this.depth > 0 && this.tokens[this.pos].kind === 'newline') {
+            this.pos++;
+        }
+        const token = this.tokens[this.pos];
+        if (token.kind !== 'eof') {
+            this.pos++;
+        }
+        return token;
+    }
+
+    private previousEnd(): number {
+        for (let i = this.pos - 1; i >= 0; i--) {
+            if (this.tokens[i].kind !== 'newline') {
+                return this.tokens[i].end;
+            }
+        }
+        return 0;
+    }
+
+    private is(text: string, offset: number = 0): boolean {
+        const token = this.peek(offset);
+        return (token.kind === 'operator' || token.kind === 'keyword') && token.text === text;
+    }
+
+    private isIdentifier(offset: number = 0): boolean {
+        return this.peek(offset).kind === 'identifier';
+    }
+
+    private accept(text: string): Token | null {
+        if (this.is(text)) {
+            return this.next();
+        }
+        return null;
+    }
+
+    private expect(text: string): Token | null {
+        const token = this.accept(text);
+        if (!token) {
+            this.error(`Expected '${text}'`, this.peek());
+        }
+        return token;
+    }
+
+    // Close a bracketed group, which may stand on a line of its own, and restore the depth outside it
+    private closeGroup(text: string, savedDepth: number): Token | null {
+        const token = this.accept(text);
+        this.depth = savedDepth;
+        if (!token) {
+            this.error(`Expected '${text}'`, this.peek());
+        }
+        return token;
+    }
+
+    private error(message: string, at: Token | Span) {
+        const span = { start: at.start, end: Math.max(at.end, at.start) };
+        const line = lineAt(this.lineStarts, span.start);
+        // One error per line keeps cascading failures out of the problems list
+        if (this.errorLines.has(line)) {
+            return;
+        }
+        this.errorLines.add(line);
+        this.errors.push({ message, span });
+    }
+
+    private describe(token: Token): string {
+        switch (token.kind) {
+            case 'eof': return 'end of file';
+            case 'newline': return 'end of line';
+            default: return `'${token.text}'`;
+        }
+    }
+
+    private skipSeparators() {
+        while (this.tokens[this.pos].kind === 'newline' || (this.tokens[this.pos].kind === 'operator' && this.tokens[this.pos].text === ';')) {
+            this.pos++;
+        }
+    }
+
+    // Index of the next token that isn't a newline, without consuming anything
+    private indexPastNewlines(): number {
+        let i = this.pos;
+        while (this.tokens[i].kind === 'newline') {
+            i++;
+        }
+        return i;
+    }
+
+    private atStatementEnd(): boolean {
+        const token = this.peek();
+        return token.kind === 'newline' || token.kind === 'eof' || (token.kind === 'operator' && (token.text === ';' || token.text === '}'));
+    }
+
+    private expectStatementEnd() {
+        if (this.atStatementEnd()) {
+            return;
+        }
+        const token = this.peek();
+        this.error(`Unexpected ${this.describe(token)}`, token);
+        this.skipToLineEnd();
+    }
+
+    private skipToLineEnd() {
+        const savedDepth = this.depth;
+        this.depth = 0;
+        while (!this.atStatementEnd()) {
+            this.pos++;
+        }
+        this.depth = savedDepth;
+    }
+
+    private span(start: number): Span {
+        return { start, end: Math.max(start, this.previousEnd()) };
+    }
+
+    // ---- statements ----
+
+    private parseStatementList(isTerminator: (token: Token) => boolean): Statement[] {
+        const statements: Statement[] = [];
+
+        while (true) {
+            this.skipSeparators();
+            const token = this.peek();
+            if (token.kind === 'eof' || isTerminator(token)) {
+                break;
+            }
+
+            const before = this.pos;
+            const statement = this.parseStatement();
+            if (statement) {
+                statements.push(statement);
+            }
+
+            if (this.pos === before) {
+                this.error(`Unexpected ${this.describe(token)}`, token);
+                this.pos++;
+            }
+        }
+
+        return statements;
+    }
+
+    private parseStatement(): Statement | null {
+        const token = this.peek();
+
+        if (token.kind === 'bytecode') {
+            this.next();
+            return { kind: 'BytecodeBlock', text: token.text, span: { start: token.start, end: token.end } };
+        }
+
+        if (token.kind === 'directive') {
+            return this.parseDirective();
+        }
+
+        if (token.kind === 'operator') {
+            if (token.text === '@') {
+                return this.parseDecorated();
+            }
+            if (token.text === '{') {
+                return this.parseBlock();
+            }
+        }
+
+        if (token.kind === 'keyword') {
+            switch (token.text) {
+                case 'if': return this.parseIf();
+                case 'while': return this.parseWhile();
+                case 'for': return this.parseFor();
+                case 'switch': return this.parseSwitch();
+                case 'try': return this.parseTry();
+                case 'return':
+                case 'raise': return this.parseReturnOrRaise();
+                case 'break':
+                case 'continue': {
+                    this.next();
+                    const statement: Statement = token.text === 'break'
+                        ? { kind: 'BreakStatement', span: { start: token.start, end: token.end } }
+                        : { kind: 'ContinueStatement', span: { start: token.start, end: token.end } };
+                    this.expectStatementEnd();
+                    return statement;
+                }
+                case 'goto': return this.parseGoto();
+                case 'global': return this.parseGlobal();
+                case 'assert': return this.parseAssert();
+                case 'const': return this.parseConst();
+                case 'struct': return this.parseStruct();
+                case 'py_import':
+                case 'from': return this.parsePyImport();
+                case 'c_import':
+                case 'c_link': return this.parseCInterop();
+                default: break;
+            }
+        }
+
+        if (this.isDeclarationStart()) {
+            return this.parseDeclaration(token.start, false, []);
+        }
+
+        if (this.isUntypedFunctionStart()) {
+            return this.parseUntypedFunction([]);
+        }
+
+        return this.parseExpressionStatement();
+    }
+
+    // `Type name ...` - two identifiers in a row can only start a declaration
+    private isDeclarationStart(): boolean {
+        const length = this.typeLength();
+        return length > 0 && this.isIdentifier(length);
+    }
+
+    // Number of tokens in the type starting at offset, e.g. 4 for `list[int]`; 0 when there is none
+    private typeLength(offset: number = 0): number {
+        if (!this.isIdentifier(offset)) {
+            return 0;
+        }
+        if (!this.is('[', offset + 1)) {
+            return 1;
+        }
+        let length = 2;
+        for (;;) {
+            const arg = this.typeLength(offset + length);
+            if (arg === 0) {
+                return 0;
+            }
+            length += arg;
+            if (this.is(']', offset + length)) {
+                return length + 1;
+            }
+            if (!this.is(',', offset + length)) {
+                return 0;
+            }
+            length++;
+        }
+    }
+
+    // `name(params) {` at top level: a function declaration missing its return type
+    private isUntypedFunctionStart(): boolean {
+        if (this.blockDepth > 0 || !this.isIdentifier(0) || !this.is('(', 1)) {
+            return false;
+        }
+
+        let i = this.pos + 1;
+        let parens = 0;
+        for (; i < this.tokens.length; i++) {
+            const token = this.tokens[i];
+            if (token.kind === 'eof' || (token.kind === 'newline' && parens === 0)) {
+                return false;
+            }
+            if (token.kind === 'operator' && token.text === '(') {
+                parens++;
+            } else if (token.kind === 'operator' && token.text === ')') {
+                parens--;
+                if (parens === 0) {
+                    break;
+                }
+            }
+        }
+
+        const after = this.tokens[i + 1];
+        return !!after && after.kind === 'operator' && after.text === '{';
+    }
+
+    private parseDirective(): Statement {
+        const token = this.next();
+        const name = token.text.substring(1);
+
+        if (name === 'label') {
+            if (!this.isIdentifier()) {
+                this.error('Expected label name', this.peek());
+                this.skipToLineEnd();
+                return { kind: 'Directive', name, value: '', span: this.span(token.start) };
+            }
+            const label = this.parseIdentifier();
+            this.expectStatementEnd();
+            return { kind: 'LabelStatement', name: label, span: this.span(token.start) };
+        }
+
+        let value = '';
+        if (this.peek().kind === 'raw') {
+            value = this.next().text;
+        } else {
+            const start = this.peek().start;
+            this.skipToLineEnd();
+            value = this.text.substring(start, Math.max(start, this.previousEnd())).trim();
+        }
+        return { kind: 'Directive', name, value, span: this.span(token.start) };
+    }
+
+    private parseDecorated(): Statement | null {
+        const start = this.peek().start;
+        const decorators: Decorator[] = [];
+
+        while (this.is('@')) {
+            const at = this.next();
+            if (!this.isIdentifier()) {
+                this.error('Expected decorator name', this.peek());
+                this.skipToLineEnd();
+                break;
+            }
+            const name = this.parseIdentifier();
+            let args: Expression[] = [];
+            if (this.is('(')) {
+                args = this.parseArguments().args;
+            }
+            decorators.push({ kind: 'Decorator', name, args, span: this.span(at.start) });
+            this.expectStatementEnd();
+            this.skipSeparators();
+        }
+
+        if (this.is('const')) {
+            this.next();
+            return this.parseDeclaration(start, true, decorators);
+        }
+        if (this.isDeclarationStart()) {
+            return this.parseDeclaration(start, false, decorators);
+        }
+        if (this.isUntypedFunctionStart()) {
+            return this.parseUntypedFunction(decorators, start);
+        }
+
+        this.error('Expected a function declaration after decorator', this.peek());
+        return null;
+    }
+
+    private parseConst(): Statement | null {
+        const start = this.next().start;
+        if (!this.isDeclarationStart()) {
+            this.error("Expected a typed declaration after 'const'", this.peek());
+            this.skipToLineEnd();
+            return null;
+        }
+        return this.parseDeclaration(start, true, []);
+    }
+
+    private parseDeclaration(start: number, isConst: boolean, decorators: Decorator[]): Statement {
+        const type = this.parseTypeRef();
+        const name = this.parseIdentifier();
+
+        if (this.is('(')) {
+            return this.parseFunctionRest(start, type, name, decorators);
+        }
+
+        const declaration: VariableDeclaration = {
+            kind: 'VariableDeclaration',
+            name,
+            type,
+            init: null,
+            isConst,
+            span: { start, end: name.span.end }
+        };
+
+        // Fixed-size lists: list items[16:int]
+        if (this.is('[')) {
+            const saved = this.depth;
+            this.depth++;
+            this.next();
+            declaration.capacity = this.parseExpression();
+            if (this.accept(':') && this.isIdentifier()) {
+                declaration.elementType = this.parseTypeRef();
+            }
+            this.closeGroup(']', saved);
+        }
+
+        if (this.accept('=')) {
+            declaration.init = this.parseExpression();
+        }
+
+        declaration.span = this.span(start);
+        this.expectStatementEnd();
+        return declaration;
+    }
+
+    private parseUntypedFunction(decorators: Decorator[], start?: number): Statement {
+        const name = this.parseIdentifier();
+        return this.parseFunctionRest(start ?? name.span.start, null, name, decorators);
+    }
+
+    private parseFunctionRest(start: number, returnType: TypeRef | null, name: Identifier, decorators: Decorator[]): FunctionDeclaration {
+        const params = this.parseParameters();
+
+        let body: Block | null = null;
+        const braceIndex = this.indexPastNewlines();
+        const braceToken = this.tokens[braceIndex];
+        if (braceToken.kind === 'operator' && braceToken.text === '{') {
+            this.pos = braceIndex;
+            body = this.parseBlock();
+        } else {
+            this.expectStatementEnd();
+        }
+
+        return {
+            kind: 'FunctionDeclaration',
+            name,
+            returnType,
+            params,
+            body,
+            decorators,
+            span: this.span(start)
+        };
+    }
+
+    private parseParameters(): Parameter[] {
+        const params: Parameter[] = [];
+        const saved = this.depth;
+        this.depth++;
+        this.expect('(');
+
+        while (!this.is(')') && this.peek().kind !== 'eof') {
+            const start = this.peek().start;
+            let type: TypeRef | null = null;
+            let variadic: 'args' | 'kwargs' | undefined;
+
+            const typeLength = this.typeLength();
+            if (typeLength > 0 && (this.isIdentifier(typeLength) || this.is('*', typeLength) || this.is('**', typeLength))) {
+                type = this.parseTypeRef();
+            }
+            if (this.accept('**')) {
+                variadic = 'kwargs';
+            } else if (this.accept('*')) {
+                variadic = 'args';
+            }
+
+            if (!this.isIdentifier()) {
+                this.error('Expected parameter name', this.peek());
+                break;
+            }
+            const name = this.parseIdentifier();
+            const param: Parameter = { kind: 'Parameter', name, type, span: this.span(start) };
+            if (variadic) {
+                param.variadic = variadic;
+            }
+            if (this.accept('=')) {
+                param.defaultValue = this.parseExpression();
+                param.span = this.span(start);
+            }
+            params.push(param);
+
+            if (!this.accept(',')) {
+                break;
+            }
+        }
+
+        this.closeGroup(')', saved);
+        return params;
+    }
+
+    private parseBlock(): Block {
+        const open = this.next();
+        const savedDepth = this.depth;
+        const savedNoBrace = this.noBraceLiteral;
+        this.depth = 0;
+        this.noBraceLiteral = false;
+        this.blockDepth++;
+
+        const body = this.parseStatementList(token => token.kind === 'operator' && token.text === '}');
+
+        this.blockDepth--;
+        this.depth = savedDepth;
+        this.noBraceLiteral = savedNoBrace;
+
+        if (!this.accept('}')) {
+            this.error("Expected '}'", open);
+        }
+
+        return { kind: 'Block', body, span: this.span(open.start) };
+    }
+
+    private expectBlock(): Block {
+        if (this.is('{')) {
+            return this.parseBlock();
+        }
+        const token = this.peek();
+        this.error("Expected '{'", token);
+        return { kind: 'Block', body: [], span: { start: token.start, end: token.start } };
+    }
+
+    // Condition before a block: braces belong to the block, not to a set/dict literal
+    private parseCondition(): Expression {
+        const saved = this.noBraceLiteral;
+        this.noBraceLiteral = true;
+        const condition = this.parseExpression();
+        this.noBraceLiteral = saved;
+        return condition;
+    }
+
+    private parseIf(): IfStatement {
+        const start = this.next().start;
+        const condition = this.parseCondition();
+        const consequent = this.expectBlock();
+        let alternate: IfStatement | Block | null = null;
+
+        const nextIndex = this.indexPastNewlines();
+        const nextToken = this.tokens[nextIndex];
+        if (nextToken.kind === 'keyword' && nextToken.text === 'elif') {
+            this.pos = nextIndex;
+            alternate = this.parseIf();
+        } else if (nextToken.kind === 'keyword' && nextToken.text === 'else') {
+            this.pos = nextIndex;
+            this.next();
+            alternate = this.is('if') ? this.parseIf() : this.expectBlock();
+        }
+
+        return { kind: 'IfStatement', condition, consequent, alternate, span: this.span(start) };
+    }
+
+    private parseWhile(): Statement {
+        const start = this.next().start;
+        const condition = this.parseCondition();
+        const body = this.expectBlock();
+        return { kind: 'WhileStatement', condition, body, span: this.span(start) };
+    }
+
+    private parseFor(): ForStatement {
+        const start = this.next().start;
+        const savedDepth = this.depth;
+        const parenthesized = !!this.accept('(');
+        if (parenthesized) {
+            this.depth++;
+        }
+
+        let variableType: TypeRef | null = null;
+        if (this.isDeclarationStart()) {
+            variableType = this.parseTypeRef();
+        }
+
+        const variables: Identifier[] = [];
+        while (this.isIdentifier()) {
+            variables.push(this.parseIdentifier());
+            if (!this.accept(',')) {
+                break;
+            }
+        }
+        if (variables.length === 0) {
+            this.error('Expected loop variable', this.peek());
+        }
+
+        this.expect('in');
+        const iterable = parenthesized ? this.parseExpression() : this.parseCondition();
+
+        if (parenthesized) {
+            this.depth = savedDepth;
+            this.expect(')');
+        }
+
+        const body = this.expectBlock();
+        return { kind: 'ForStatement', variables, variableType, iterable, body, span: this.span(start) };
+    }
+
+    private parseSwitch(): SwitchStatement {
+        const start = this.next().start;
+        const discriminant = this.parseCondition();
+        const cases: SwitchCase[] = [];
+
+        const open = this.expect('{');
+        if (!open) {
+            return { kind: 'SwitchStatement', discriminant, cases, span: this.span(start) };
+        }
+
+        const savedDepth = this.depth;
+        this.depth = 0;
+        this.blockDepth++;
+
+        const isArmEnd = (token: Token) =>
+            (token.kind === 'keyword' && (token.text === 'case' || token.text === 'default')) ||
+            (token.kind === 'operator' && token.text === '}');
+
+        while (true) {
+            this.skipSeparators();
+            const token = this.peek();
+            if (token.kind === 'eof' || this.is('}')) {
+                break;
+            }
+
+            if (token.kind !== 'keyword' || (token.text !== 'case' && token.text !== 'default')) {
+                this.error("Expected 'case' or 'default'", token);
+                this.skipToLineEnd();
+                if (this.pos < this.tokens.length - 1 && !this.is('}')) {
+                    this.pos++;
+                }
+                continue;
+            }
+
+            this.next();
+            const isDefault = token.text === 'default';
+            const tests: Expression[] = [];
+            if (!isDefault) {
+                const saved = this.noBraceLiteral;
+                this.noBraceLiteral = true;
+                do {
+                    tests.push(this.parseExpression());
+                } while (this.accept(','));
+                this.noBraceLiteral = saved;
+            }
+
+            let body: Statement[];
+            if (this.is('{')) {
+                body = [this.parseBlock()];
+            } else {
+                this.expect(':');
+                body = this.parseStatementList(isArmEnd);
+            }
+
+            cases.push({ kind: 'SwitchCase', tests, isDefault, body, span: this.span(token.start) });
+        }
+
+        this.blockDepth--;
+        this.depth = savedDepth;
+        if (!this.accept('}')) {
+            this.error("Expected '}'", open);
+        }
+
+        return { kind: 'SwitchStatement', discriminant, cases, span: this.span(start) };
+    }
+
+    private parseTry(): TryStatement {
+        const start = this.next().start;
+        const body = this.expectBlock();
+        const handlers: ExceptClause[] = [];
+
+        while (true) {
+            const nextIndex = this.indexPastNewlines();
+            const nextToken = this.tokens[nextIndex];
+            if (nextToken.kind !== 'keyword' || nextToken.text !== 'except') {
+                break;
+            }
+            this.pos = nextIndex;
+            this.next();
+
+            let errorType: Identifier | null = null;
+            let alias: Identifier | null = null;
+            const parenthesized = !!this.accept('(');
+            if (this.isIdentifier()) {
+                errorType = this.parseIdentifier();
+            }
+            if (parenthesized) {
+                this.expect(')');
+            }
+            if (this.accept('as')) {
+                if (this.isIdentifier()) {
+                    alias = this.parseIdentifier();
+                } else {
+                    this.error('Expected name after \'as\'', this.peek());
+                }
+            }
+
+            const handlerBody = this.expectBlock();
+            handlers.push({ kind: 'ExceptClause', errorType, alias, body: handlerBody, span: this.span(nextToken.start) });
+        }
+
+        return { kind: 'TryStatement', body, handlers, span: this.span(start) };
+    }
+
+    private parseReturnOrRaise(): Statement {
+        const keyword = this.next();
+        const argument = this.atStatementEnd() ? null : this.parseExpression();
+        const span = this.span(keyword.start);
+        this.expectStatementEnd();
+        return keyword.text === 'return'
+            ? { kind: 'ReturnStatement', argument, span }
+            : { kind: 'RaiseStatement', argument, span };
+    }
+
+    private parseGoto(): Statement | null {
+        const start = this.next().start;
+        if (!this.isIdentifier()) {
+            this.error('Expected label name after \'goto\'', this.peek());
+            this.skipToLineEnd();
+            return null;
+        }
+        const label = this.parseIdentifier();
+        this.expectStatementEnd();
+        return { kind: 'GotoStatement', label, span: this.span(start) };
+    }
+
+    private parseGlobal(): Statement {
+        const start = this.next().start;
+        const names: Identifier[] = [];
+        while (this.isIdentifier()) {
+            names.push(this.parseIdentifier());
+            if (!this.accept(',')) {
+                break;
+            }
+        }
+        this.expectStatementEnd();
+        return { kind: 'GlobalStatement', names, span: this.span(start) };
+    }
+
+    private parseAssert(): AssertStatement {
+        const start = this.next().start;
+        let args: Expression[] = [];
+
+        if (this.is('(')) {
+            args = this.parseArguments().args;
+        } else {
+            do {
+                args.push(this.parseExpression());
+            } while (this.accept(','));
+        }
+
+        this.expectStatementEnd();
+        return { kind: 'AssertStatement', args, span: this.span(start) };
+    }
+
+    private parseStruct(): Statement | null {
+        const start = this.next().start;
+        if (!this.isIdentifier()) {
+            this.error('Expected struct name', this.peek());
+            this.skipToLineEnd();
+            return null;
+        }
+        const name = this.parseIdentifier();
+        const fields: StructField[] = [];
+        const open = this.expect('{');
+
+        if (open) {
+            const savedDepth = this.depth;
+            this.depth = 0;
+
+            while (true) {
+                while (this.peek().kind === 'newline' || this.is(',') || this.is(';')) {
+                    this.next();
+                }
+                if (this.is('}') || this.peek().kind === 'eof') {
+                    break;
+                }
+
+                if (!this.isDeclarationStart()) {
+                    this.error('Expected field declaration', this.peek());
+                    this.skipToLineEnd();
+                    if (!this.is('}') && this.peek().kind !== 'eof') {
+                        this.next();
+                    }
+                    continue;
+                }
+
+                const fieldStart = this.peek().start;
+                const type = this.parseTypeRef();
+                const fieldName = this.parseIdentifier();
+                const field: StructField = { kind: 'StructField', name: fieldName, type, span: this.span(fieldStart) };
+                if (this.accept('=')) {
+                    field.defaultValue = this.parseExpression();
+                    field.span = this.span(fieldStart);
+                }
+                fields.push(field);
+            }
+
+            this.depth = savedDepth;
+            if (!this.accept('}')) {
+                this.error("Expected '}'", open);
+            }
+        }
+
+        const declaration: StructDeclaration = { kind: 'StructDeclaration', name, fields, span: this.span(start) };
+        return declaration;
+    }
+
+    private parseDottedName(): { name: string; span: Span } | null {
+        if (!this.isIdentifier()) {
+            return null;
+        }
+        const first = this.next();
+        let end = first.end;
+        let name = first.text;
+        while (this.is('.') && this.isIdentifier(1)) {
+            this.next();
+            const part = this.next();
+            name += '.' + part.text;
+            end = part.end;
+        }
+        return { name, span: { start: first.start, end } };
+    }
+
+    private parsePyImport(): Statement | null {
+        const keyword = this.next();
+        const start = keyword.start;
+        const module = this.parseDottedName();
+
+        if (!module) {
+            this.error('Expected module name', this.peek());
+            this.skipToLineEnd();
+            return null;
+        }
+
+        let member: Identifier | null = null;
+        if (keyword.text === 'from') {
+            if (!this.expect('py_import')) {
+                this.skipToLineEnd();
+                return null;
+            }
+            if (!this.isIdentifier()) {
+                this.error('Expected name to import', this.peek());
+                this.skipToLineEnd();
+                return null;
+            }
+            member = this.parseIdentifier();
+        }
+
+        let alias: Identifier | null = null;
+        if (this.accept('as')) {
+            if (this.isIdentifier()) {
+                alias = this.parseIdentifier();
+            } else {
+                this.error('Expected alias name', this.peek());
+            }
+        }
+
+        this.expectStatementEnd();
+        const statement: PyImport = {
+            kind: 'PyImport',
+            module: module.name,
+            moduleSpan: module.span,
+            member,
+            alias,
+            span: this.span(start)
+        };
+        return statement;
+    }
+
+    private parseCInterop(): Statement | null {
+        const keyword = this.next();
+        const raw = this.peek().kind === 'raw' ? this.next() : null;
+        if (!raw) {
+            this.error(keyword.text === 'c_import' ? 'Expected header path' : 'Expected library names', keyword);
+            return null;
+        }
+        const span = this.span(keyword.start);
+        return keyword.text === 'c_import'
+            ? { kind: 'CImport', path: raw.text, span }
+            : { kind: 'CLink', libs: raw.text, span };
+    }
+
+    private parseExpressionStatement(): Statement {
+        const start = this.peek().start;
+        const expression = this.parseExpression();
+
+        const token = this.peek();
+        if (token.kind === 'operator' && assignmentOperators.has(token.text)) {
+            this.next();
+            const value = this.parseExpression();
+            const assignment: Assignment = { kind: 'Assignment', target: expression, operator: token.text, value, span: this.span(start) };
+            this.expectStatementEnd();
+            return assignment;
+        }
+
+        this.expectStatementEnd();
+        return { kind: 'ExpressionStatement', expression, span: this.span(start) };
+    }
+
+    // ---- expressions ----
+
+    private parseIdentifier(): Identifier {
+        const token = this.next();
+        return { kind: 'Identifier', name: token.text, span: { start: token.start, end: token.end } };
+    }
+
+    private parseTypeRef(): TypeRef {
+        const token = this.next();
+        const type: TypeRef = { kind: 'TypeRef', name: token.text, span: { start: token.start, end: token.end } };
+        if (this.is('[') && this.isIdentifier(1)) {
+            this.next();
+            type.args = [];
+            do {
+                type.args.push(this.parseTypeRef());
+            } while (this.accept(','));
+            this.expect(']');
+            type.span = this.span(token.start);
+        }
+        return type;
+    }
+
+    public parseExpression(): Expression {
+        return this.parseTernary();
+    }
+
+    private parseTernary(): Expression {
+        const start = this.peek().start;
+        const test = this.parseOr();
+
+        if (this.accept('?')) {
+            const consequent = this.parseTernary();
+            this.expect(':');
+            const alternate = this.parseTernary();
+            return { kind: 'TernaryExpression', test, consequent, alternate, span: this.span(start) };
+        }
+
+        // Python-style conditional: a if cond else b
+        if (this.is('if')) {
+            this.next();
+            const condition = this.parseOr();
+            this.expect('else');
+            const alternate = this.parseTernary();
+            return { kind: 'TernaryExpression', test: condition, consequent: test, alternate, span: this.span(start) };
+        }
+
+        return test;
+    }
+
+    private parseBinaryLevel(operators: string[], parseOperand: () => Expression): Expression {
+        const start = this.peek().start;
+        let left = parseOperand();
+
+        while (true) {
+            const token = this.peek();
+            if ((token.kind !== 'operator' && token.kind !== 'keyword') || !operators.includes(token.text)) {
+                break;
+            }
+            this.next();
+            const right = parseOperand();
+            left = { kind: 'BinaryExpression', operator: token.text, left, right, span: this.span(start) };
+        }
+
+        return left;
+    }
+
+    private parseOr(): Expression {
+        return this.parseBinaryLevel(['or', '||'], () => this.parseAnd());
+    }
+
+    private parseAnd(): Expression {
+        return this.parseBinaryLevel(['and', '&&'], () => this.parseNot());
+    }
+
+    private parseNot(): Expression {
+        if (this.is('not') || this.is('!')) {
+            const operator = this.next();
+            const argument = this.parseNot();
+            return { kind: 'UnaryExpression', operator: operator.text, argument, span: this.span(operator.start) };
+        }
+        return this.parseComparison();
+    }
+
+    private parseComparison(): Expression {
+        const start = this.peek().start;
+        let left = this.parseBitOr();
+
+        while (true) {
+            const token = this.peek();
+            let operator: string | null = null;
+            if (token.kind === 'operator' && comparisonOperators.has(token.text)) {
+                operator = token.text;
+                this.next();
+            } else if (this.is('in')) {
+                operator = 'in';
+                this.next();
+            } else if (this.is('not') && this.is('in', 1)) {
+                operator = 'not in';
+                this.next();
+                this.next();
+            }
+            if (!operator) {
+                break;
+            }
+            const right = this.parseBitOr();
+            left = { kind: 'BinaryExpression', operator, left, right, span: this.span(start) };
+        }
+
+        return left;
+    }
+
+    private parseBitOr(): Expression {
+        return this.parseBinaryLevel(['|'], () => this.parseBitXor());
+    }
+
+    private parseBitXor(): Expression {
+        return this.parseBinaryLevel(['^'], () => this.parseBitAnd());
+    }
+
+    private parseBitAnd(): Expression {
+        return this.parseBinaryLevel(['&'], () => this.parseShift());
+    }
+
+    private parseShift(): Expression {
+        return this.parseBinaryLevel(['<<', '>>'], () => this.parseRange());
+    }
+
+    private parseRange(): Expression {
+        const start = this.peek().start;
+        const left = this.parseAdditive();
+        if (this.accept('..')) {
+            const right = this.parseAdditive();
+            return { kind: 'RangeExpression', start: left, end: right, span: this.span(start) };
+        }
+        return left;
+    }
+
+    private parseAdditive(): Expression {
+        return this.parseBinaryLevel(['+', '-'], () => this.parseMultiplicative());
+    }
+
+    private parseMultiplicative(): Expression {
+        return this.parseBinaryLevel(['*', '/', '%'], () => this.parseUnary());
+    }
+
+    private parseUnary(): Expression {
+        if (this.is('-') || this.is('+') || this.is('~')) {
+            const operator = this.next();
+            const argument = this.parseUnary();
+            return { kind: 'UnaryExpression', operator: operator.text, argument, span: this.span(operator.start) };
+        }
+        return this.parsePower();
+    }
+
+    private parsePower(): Expression {
+        const start = this.peek().start;
+        const base = this.parsePostfix();
+        if (this.accept('**')) {
+            const exponent = this.parseUnary();
+            return { kind: 'BinaryExpression', operator: '**', left: base, right: exponent, span: this.span(start) };
+        }
+        return base;
+    }
+
+    private parsePostfix(): Expression {
+        const start = this.peek().start;
+        let expression = this.parsePrimary();
+
+        while (true) {
+            if (this.is('(')) {
+                const { args, span: argsSpan } = this.parseArguments();
+                const call: CallExpression = { kind: 'CallExpression', callee: expression, args, argsSpan, span: this.span(start) };
+                expression = call;
+            } else if (this.is('.') && this.isIdentifier(1)) {
+                this.next();
+                const property = this.parseIdentifier();
+                expression = { kind: 'MemberExpression', object: expression, property, span: this.span(start) };
+            } else if (this.is('[')) {
+                expression = this.parseIndex(start, expression);
+            } else {
+                break;
+            }
+        }
+
+        return expression;
+    }
+
+    private parseArguments(): { args: Expression[]; span: Span } {
+        const open = this.next();
+        const saved = this.depth;
+        const savedNoBrace = this.noBraceLiteral;
+        this.depth++;
+        this.noBraceLiteral = false;
+        const args: Expression[] = [];
+
+        while (!this.is(')') && this.peek().kind !== 'eof') {
+            const start = this.peek().start;
+
+            if (this.isIdentifier() && this.is('=', 1)) {
+                const name = this.parseIdentifier();
+                this.next();
+                const value = this.parseExpression();
+                const keywordArg: KeywordArgument = { kind: 'KeywordArgument', name, value, span: this.span(start) };
+                args.push(keywordArg);
+            } else if (this.is('*') || this.is('**')) {
+                const operator = this.next();
+                const argument = this.parseExpression();
+                args.push({ kind: 'UnaryExpression', operator: operator.text, argument, span: this.span(start) });
+            } else {
+                args.push(this.parseExpression());
+            }
+
+            if (!this.accept(',')) {
+                break;
+            }
+        }
+
+        this.noBraceLiteral = savedNoBrace;
+        const close = this.accept(')');
+        this.depth = saved;
+        if (!close) {
+            this.error(`Expected ',' or ')' but found ${this.describe(this.peek())}`, this.peek());
+        }
+
+        return { args, span: this.span(open.start) };
+    }
+
+    private parseIndex(start: number, object: Expression): Expression {
+        const open = this.next();
+        const saved = this.depth;
+        const savedNoBrace = this.noBraceLiteral;
+        this.depth++;
+        this.noBraceLiteral = false;
+
+        const optional = () => (this.is(':') || this.is(']') ? null : this.parseExpression());
+        let index: Expression;
+        const lower = optional();
+
+        if (this.is(':')) {
+            this.next();
+            const upper = optional();
+            let step: Expression | null = null;
+            if (this.accept(':')) {
+                step = optional();
+            }
+            index = { kind: 'SliceExpression', lower, upper, step, span: this.span(open.end) };
+        } else if (lower) {
+            index = lower;
+        } else {
+            this.error('Expected index expression', this.peek());
+            index = { kind: 'ErrorExpression', span: { start: open.end, end: open.end } };
+        }
+
+        this.noBraceLiteral = savedNoBrace;
+        this.closeGroup(']', saved);
+        return { kind: 'IndexExpression', object, index, span: this.span(start) };
+    }
+
+    private parsePrimary(): Expression {
+        const token = this.peek();
+        const span = { start: token.start, end: token.end };
+
+        switch (token.kind) {
+            case 'identifier':
+                return this.parseIdentifier();
+            case 'int': {
+                this.next();
+                const value = Number(token.text.replace(/_/g, ''));
+                return { kind: 'IntLiteral', value, raw: token.text, span };
+            }
+            case 'float': {
+                this.next();
+                return { kind: 'FloatLiteral', value: parseFloat(token.text.replace(/_/g, '')), raw: token.text, span };
+            }
+            case 'string':
+                this.next();
+                if (token.unterminated) {
+                    this.error('Unterminated string literal', token);
+                }
+                return { kind: 'StringLiteral', value: unquote(token.text), raw: token.text, span };
+            case 'bytes':
+                this.next();
+                if (token.unterminated) {
+                    this.error('Unterminated bytes literal', token);
+                }
+                return { kind: 'BytesLiteral', value: unquote(token.text.substring(1)), raw: token.text, span };
+            case 'fstring':
+                this.next();
+                if (token.unterminated) {
+                    this.error('Unterminated f-string literal', token);
+                }
+                return { kind: 'FString', raw: token.text, interpolations: this.parseInterpolations(token), span };
+            case 'keyword':
+                if (token.text === 'true' || token.text === 'false') {
+                    this.next();
+                    return { kind: 'BoolLiteral', value: token.text === 'true', span };
+                }
+                if (token.text === 'null' || token.text === 'none' || token.text === 'None') {
+                    this.next();
+                    return { kind: 'NullLiteral', span };
+                }
+                break;
+            case 'operator':
+                if (token.text === '(') {
+                    return this.parseParenthesized();
+                }
+                if (token.text === '[') {
+                    return this.parseListLiteral();
+                }
+                if (token.text === '{' && !this.noBraceLiteral) {
+                    return this.parseBraceLiteral();
+                }
+                break;
+            default:
+                break;
+        }
+
+        this.error(`Expected expression but found ${this.describe(token)}`, token);
+        return { kind: 'ErrorExpression', span: { start: token.start, end: token.start } };
+    }
+
+    private parseParenthesized(): Expression {
+        const open = this.next();
+        const saved = this.depth;
+        const savedNoBrace = this.noBraceLiteral;
+        this.depth++;
+        this.noBraceLiteral = false;
+
+        const expression = this.parseExpression();
+
+        this.noBraceLiteral = savedNoBrace;
+        this.closeGroup(')', saved);
+        return { kind: 'ParenthesizedExpression', expression, span: this.span(open.start) };
+    }
+
+    private parseListLiteral(): Expression {
+        const open = this.next();
+        const saved = this.depth;
+        const savedNoBrace = this.noBraceLiteral;
+        this.depth++;
+        this.noBraceLiteral = false;
+        const elements: Expression[] = [];
+
+        while (!this.is(']') && this.peek().kind !== 'eof') {
+            elements.push(this.parseExpression());
+            if (!this.accept(',')) {
+                break;
+            }
+        }
+
+        this.noBraceLiteral = savedNoBrace;
+        this.closeGroup(']', saved);
+        return { kind: 'ListLiteral', elements, span: this.span(open.start) };
+    }
+
+    // `{}` and `{k: v}` are dicts, `{a, b}` is a set
+    private parseBraceLiteral(): Expression {
+        const open = this.next();
+        const saved = this.depth;
+        this.depth++;
+        const entries: DictEntry[] = [];
+        const elements: Expression[] = [];
+
+        while (!this.is('}') && this.peek().kind !== 'eof') {
+            const start = this.peek().start;
+            const key = this.parseExpression();
+            if (this.accept(':')) {
+                const value = this.parseExpression();
+                entries.push({ kind: 'DictEntry', key, value, span: this.span(start) });
+            } else {
+                elements.push(key);
+            }
+            if (!this.accept(',')) {
+                break;
+            }
+        }
+
+        this.closeGroup('}', saved);
+        const span = this.span(open.start);
+        if (elements.length > 0 && entries.length === 0) {
+            return { kind: 'SetLiteral', elements, span };
+        }
+        return { kind: 'DictLiteral', entries, span };
+    }
+
+    // Parse `{expr}` segments of an f-string into expressions with absolute offsets
+    private parseInterpolations(token: Token): FStringInterpolation[] {
+        const interpolations: FStringInterpolation[] = [];
+        const { text } = this;
+        const contentStart = token.start + 2;
+        const contentEnd = token.unterminated ? token.end : token.end - 1;
+
+        let i = contentStart;
+        while (i < contentEnd) {
+            const char = text[i];
+            if (char === '\\') {
+                i += 2;
+                continue;
+            }
+            // `{{` and `}}` are literal braces
+            if ((char === '{' || char === '}') && text[i + 1] === char) {
+                i += 2;
+                continue;
+            }
+            if (char === '}') {
+                this.error("Single '}' in f-string; use '}}' for a literal brace", { start: i, end: i + 1 });
+                i++;
+                continue;
+            }
+            if (char !== '{') {
+                i++;
+                continue;
+            }
+
+            const close = findInterpolationEnd(text, i + 1, contentEnd);
+            if (close < 0) {
+                this.error("Unmatched '{' in f-string; use '{{' for a literal brace", { start: i, end: i + 1 });
+                break;
+            }
+
+            let exprEnd = close;
+            const colon = findFormatSpec(text, i + 1, close);
+            if (colon >= 0) {
+                exprEnd = colon;
+            }
+
+            const span = { start: i, end: close + 1 };
+            if (text.substring(i + 1, exprEnd).trim() === '') {
+                interpolations.push({ kind: 'FStringInterpolation', expression: null, span });
+            } else {
+                const { tokens } = tokenize(text, i + 1, exprEnd);
+                const inner = new Parser(text, tokens, this.errors, this.lineStarts);
+                inner.depth = 1;
+                const expression = inner.parseExpression();
+                const rest = inner.peek();
+                if (rest.kind !== 'eof') {
+                    inner.error(`Unexpected ${inner.describe(rest)} in f-string expression`, rest);
+                }
+                interpolations.push({ kind: 'FStringInterpolation', expression, span });
+            }
+
+            i = close + 1;
+        }
+
+        return interpolations;
+    }
+}
+
+// Matching `}` for an interpolation starting at `start`, skipping nested braces and strings
+function findInterpolationEnd(text: string, start: number, end: number): number {
+    let depth = 0;
+    for (let i = start; i < end; i++) {
+        const char = text[i];
+        if (char === '"' || char === "'") {
+            const close = text.indexOf(char, i + 1);
+            if (close < 0 || close >= end) {
+                return -1;
+            }
+            i = close;
+        } else if (char === '{') {
+            depth++;
+        } else if (char === '}') {
+            if (depth === 0) {
+                return i;
+            }
+            depth--;
+        }
+    }
+    return -1;
+}
+
+// Offset of a top-level `:` that introduces a format spec, or -1
+function findFormatSpec(text: string, start: number, end: number): number {
+    let depth = 0;
+    for (let i = start; i < end; i++) {
+        const char = text[i];
+        if (char === '"' || char === "'") {
+            // A colon inside a string such as d["a:b"] is not a format spec
+            const close = text.indexOf(char, i + 1);
+            if (close < 0 || close >= end) {
+                return -1;
+            }
+            i = close;
+        } else if (char === '(' || char === '[' || char === '{') {
+            depth++;
+        } else if (char === ')' || char === ']' || char === '}') {
+            depth--;
+        } else if (char === '?' && depth === 0) {
+            return -1;
+        } else if (char === ':' && depth === 0) {
+            return formatSpecPattern.test(text.substring(i + 1, end)) ? i : -1;
+        }
+    }
+    return -1;
+}
+
+function unquote(raw: string): string {
+    const quote = raw[0];
+    let body = raw.substring(1);
+    if (body.endsWith(quote)) {
+        body = body.substring(0, body.length - 1);
+    }
+    return body.replace(/\\(.)/g, (_, char: string) => {
+        switch (char) {
+            case 'n': return '\n';
+            case 't': return '\t';
+            case 'r': return '\r';
+            default: return char;
+        }
+    });
+}
+
+// Map of line number -> documentation from the `///` comments directly above it
+export function collectDocComments(comments: Comment[], text: string, lineStarts: number[]): Map<number, string> {
+    const docs = new Map<number, string>();
+    const docLines = new Map<number, string>();
+
+    for (const comment of comments) {
+        if (!comment.isDoc) {
+            continue;
+        }
+        const line = lineAt(lineStarts, comment.start);
+        // Only full-line doc comments count, not trailing ones
+        if (text.substring(lineStarts[line], comment.start).trim() !== '') {
+            continue;
+        }
+        docLines.set(line, comment.text.substring(3).trim());
+    }
+
+    const sortedLines = Array.from(docLines.keys()).sort((a, b) => a - b);
+    for (const line of sortedLines) {
+        let target = line + 1;
+        while (docLines.has(target)) {
+            target++;
+        }
+        if (target >= lineStarts.length) {
+            continue;
+        }
+        const doc = docLines.get(line)!;
+        if (!doc) {
+            continue;
+        }
+        const existing = docs.get(target);
+        docs.set(target, existing ? existing + '\n\n' + doc : doc);
+    }
+
+    return docs;
+}
+
+export function parse(text: string): ParseResult {
+    const lineStarts = computeLineStarts(text);
+    const { tokens, comments } = tokenize(text);
+    const errors: ParseError[] = [];
+    const program = new Parser(text, tokens, errors, lineStarts).parseProgram();
+
+    // Attach docstrings to declarations
+    const docs = collectDocComments(comments, text, lineStarts);
+    if (docs.size > 0) {
+        walk(program, node => {
+            if (node.kind === 'FunctionDeclaration' || node.kind === 'StructDeclaration' || node.kind === 'VariableDeclaration') {
+                const doc = docs.get(lineAt(lineStarts, node.span.start));
+                if (doc) {
+                    node.documentation = doc;
+                }
+            }
+        });
+    }
+
+    return { program, tokens, comments, errors, lineStarts };
+}
@@ -1,5 +1,8 @@
-import * as vscode from 'vscode';
-import { extractPythonImports } from './utils';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CancellationToken, CompletionItem, CompletionItemKind, Diagnostic, DiagnosticSeverity, DiagnosticTag, Range } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { LineDocument, LinePosition, extractPythonImports, textLines } from './utils';
 
 export interface PythonModule {
     name: string;
@@ -11,7 +14,10 @@ export interface PythonModule {
 export class PythonInteropProvider {
     private importCache: Map<string, PythonModule[]> = new Map();
 
-    public getImports(document: vscode.TextDocument): PythonModule[] {
+    // The workspace root is used to find a project-local .venv interpreter
+    constructor(private workspaceRoot?: string) {}
+
+    public getImports(document: LineDocument): PythonModule[] {
         const cacheKey = document.uri.toString();
         
         if (this.importCache.has(cacheKey)) {
@@ -33,15 +39,15 @@ export class PythonInteropProvider {
         return imports;
     }
 
-    public clearCache(document: vscode.TextDocument) {
+    public clearCache(document: { uri: { toString(): string } }) {
         this.importCache.delete(document.uri.toString());
     }
 
     public providePythonCompletions(
-        document: vscode.TextDocument,
-        position: vscode.Position
-    ): vscode.CompletionItem[] {
-        const completions: vscode.CompletionItem[] = [];
+        document: LineDocument,
+        position: LinePosition
+    ): CompletionItem[] {
+        const completions: CompletionItem[] = [];
         const imports = this.getImports(document);
 
         // Get text before cursor to determine context
@@ -56,10 +62,12 @@ export class PythonInteropProvider {
             // Suggest imported modules
             imports.forEach(imp => {
                 if (imp.name.startsWith(modulePrefix)) {
-                    const item = new vscode.CompletionItem(imp.name, vscode.CompletionItemKind.Module);
-                    item.detail = 'Python module';
-                    item.insertText = imp.name;
-                    completions.push(item);
+                    completions.push({
+                        label: imp.name,
+                        kind: CompletionItemKind.Module,
+                        detail: 'Python module',
+                        insertText: imp.name
+                    });
                 }
             });
         }
@@ -100,15 +108,10 @@ export class PythonInteropProvider {
      * Find the Python executable to use (prefers .venv)
      */
     private findPythonCommand(): string {
-        const path = require('path');
-        const fs = require('fs');
-        const vscode = require('vscode');
-        
         let pythonCommand = 'python3';
         
-        if (vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 0) {
-            const workspaceRoot = vscode.workspace.workspaceFolders[0].uri.fsPath;
-            const venvPath = path.join(workspaceRoot, '.venv');
+        if (this.workspaceRoot) {
+            const venvPath = path.join(this.workspaceRoot, '.venv');
             
             if (fs.existsSync(venvPath)) {
                 pythonCommand = process.platform === 'win32' ? 
@@ -172,6 +175,23 @@ export class PythonInteropProvider {
         });
     }
 
+    /**
+     * Locate the builtin manifest shipped with the installed `fr` runtime package
+     */
+    public async findRuntimeManifest(): Promise<string | null> {
+        const pythonScript = `
+import importlib.util
+import os
+
+spec = importlib.util.find_spec('fr')
+if spec and spec.origin:
+    manifest = os.path.join(os.path.dirname(spec.origin), 'builtins.json')
+    if os.path.isfile(manifest):
+        print(manifest)
+`;
+        return this.runPythonScript(pythonScript, [], 5000);
+    }
+
     /**
      * Get Python object signature by introspecting the actual Python module
      */
@@ -378,49 +398,22 @@ except Exception as e:
     }
 }
 
-export function createPythonImportCodeAction(
-    document: vscode.TextDocument,
-    functionName: string,
-    moduleName: string
-): vscode.CodeAction {
-    const action = new vscode.CodeAction(
-        `Import ${moduleName} for ${functionName}`,
-        vscode.CodeActionKind.QuickFix
-    );
-
-    const edit = new vscode.WorkspaceEdit();
-    
-    // Find the best place to insert the import (after other imports or at the top)
-    let insertLine = 0;
-    for (let i = 0; i < document.lineCount; i++) {
-        const line = document.lineAt(i).text.trim();
-        if (line.startsWith('py_import') || line.startsWith('from')) {
-            insertLine = i + 1;
-        } else if (line && !line.startsWith('//')) {
-            break;
-        }
-    }
-
-    const insertPosition = new vscode.Position(insertLine, 0);
-    const importStatement = `py_import ${moduleName}\n`;
-    
-    edit.insert(document.uri, insertPosition, importStatement);
-    action.edit = edit;
-
-    return action;
-}
-
 export function createPythonInteropDiagnostics(
-    document: vscode.TextDocument,
-    pythonProvider: PythonInteropProvider
-): vscode.Diagnostic[] {
-    const diagnostics: vscode.Diagnostic[] = [];
-    const imports = pythonProvider.getImports(document);
+    document: TextDocument,
+    pythonProvider: PythonInteropProvider,
+    token?: CancellationToken
+): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const lines = textLines(document.getText());
+    const imports = pythonProvider.getImports({ uri: document.uri, ...lines });
     const importedModules = new Set(imports.map(imp => imp.alias || imp.name));
 
-    for (let i = 0; i < document.lineCount; i++) {
-        const line = document.lineAt(i);
-        const {text} = line;
+    for (let i = 0; i < lines.lineCount; i++) {
+        // A newer edit makes the rest of the scan pointless
+        if (token?.isCancellationRequested) {
+            return [];
+        }
+        const {text} = lines.lineAt(i);
 
         // Check for py_call with potentially undefined modules
         const pyCallMatch = text.match(/py_call\s*\(\s*"([^"]+)"/);
@@ -429,15 +422,12 @@ export function createPythonInteropDiagnostics(
             
             if (!importedModules.has(moduleName) && !pythonProvider.validateImport(moduleName)) {
                 const start = text.indexOf(moduleName);
-                const range = new vscode.Range(i, start, i, start + moduleName.length);
-                
-                const diagnostic = new vscode.Diagnostic(
-                    range,
-                    `Module '${moduleName}' is not imported. Add 'py_import ${moduleName}'.`,
-                    vscode.DiagnosticSeverity.Warning
-                );
-                diagnostic.code = 'missing-python-import';
-                diagnostics.push(diagnostic);
+                diagnostics.push({
+                    range: Range.create(i, start, i, start + moduleName.length),
+                    message: `Module '${moduleName}' is not imported. Add 'py_import ${moduleName}'.`,
+                    severity: DiagnosticSeverity.Warning,
+                    code: 'missing-python-import'
+                });
             }
         }
 
@@ -451,15 +441,13 @@ export function createPythonInteropDiagnostics(
                 
                 // Subtract 1 for the import declaration itself
                 if (uses.length <= 1) {
-                    const {range} = line;
-                    const diagnostic = new vscode.Diagnostic(
-                        range,
-                        `Python import '${moduleName}' is never used`,
-                        vscode.DiagnosticSeverity.Hint
-                    );
-                    diagnostic.tags = [vscode.DiagnosticTag.Unnecessary];
-                    diagnostic.code = 'unused-python-import';
-                    diagnostics.push(diagnostic);
+                    diagnostics.push({
+                        range: Range.create(i, 0, i, text.length),
+                        message: `Python import '${moduleName}' is never used`,
+                        severity: DiagnosticSeverity.Hint,
+                        tags: [DiagnosticTag.Unnecessary],
+                        code: 'unused-python-import'
+                    });
                 }
             }
         });
@@ -0,0 +1,135 @@
+// Rename support shared by the language server: new-name validation, conflict detection
+// and struct field occurrences, which are not bindings of the scope tree.
+
+import { Expression, Identifier, StructDeclaration, findNodePath, walk } from './ast';
+import { DocumentAnalysis } from './analysisCache';
+import { Binding, NameNode, Scope, bindingType } from './scopes';
+import { builtinFunctions } from './builtins';
+import { keywords, types } from './symbols';
+
+// Struct declarations by name, looked up across the workspace
+export type StructLookup = (name: string) => StructDeclaration | undefined;
+
+export interface FieldTarget {
+    struct: string;
+    field: string;
+    identifier: Identifier;
+}
+
+// Why a new name cannot be used at all
+export function invalidNameReason(newName: string): string | undefined {
+    if (!/^[A-Za-z_]\w*$/.test(newName)) {
+        return `'${newName}' is not a valid identifier`;
+    }
+    if (keywords.includes(newName) || types.includes(newName) || ['true', 'false', 'none', 'null'].includes(newName)) {
+        return `'${newName}' is a keyword`;
+    }
+    return undefined;
+}
+
+export function isBuiltinName(name: string): boolean {
+    return builtinFunctions.some(func => func.name === name);
+}
+
+// Struct type of an expression, following field types through `a.b.c`
+function structTypeOf(expr: Expression, analysis: DocumentAnalysis, structs: StructLookup): string | undefined {
+    switch (expr.kind) {
+        case 'Identifier':
+            return bindingType(analysis.scopes.bindingOf(expr));
+        case 'ParenthesizedExpression':
+            return structTypeOf(expr.expression, analysis, structs);
+        case 'CallExpression':
+            return expr.callee.kind === 'Identifier' && structs(expr.callee.name) ? expr.callee.name : undefined;
+        case 'MemberExpression': {
+            const objectType = structTypeOf(expr.object, analysis, structs);
+            const struct = objectType ? structs(objectType) : undefined;
+            return struct?.fields.find(field => field.name.name === expr.property.name)?.type.name;
+        }
+        default:
+            return undefined;
+    }
+}
+
+/** The struct field declared or accessed at an offset. */
+export function fieldAt(analysis: DocumentAnalysis, offset: number, structs: StructLookup): FieldTarget | undefined {
+    const path = findNodePath(analysis.result.program, offset);
+    const target = path[path.length - 1];
+    const parent = path[path.length - 2];
+    const grandparent = path[path.length - 3];
+    if (!target || target.kind !== 'Identifier' || !parent) {
+        return undefined;
+    }
+
+    if (parent.kind === 'StructField' && parent.name === target && grandparent?.kind === 'StructDeclaration') {
+        return { struct: grandparent.name.name, field: target.name, identifier: target };
+    }
+
+    if (parent.kind === 'MemberExpression' && parent.property === target) {
+        const struct = structTypeOf(parent.object, analysis, structs);
+        if (struct && structs(struct)?.fields.some(field => field.name.name === target.name)) {
+            return { struct, field: target.name, identifier: target };
+        }
+    }
+    return undefined;
+}
+
+/** Declarations and accesses of a struct field in one file. */
+export function fieldOccurrences(analysis: DocumentAnalysis, target: FieldTarget, structs: StructLookup): Identifier[] {
+    const occurrences: Identifier[] = [];
+    walk(analysis.result.program, node => {
+        if (node.kind === 'StructDeclaration' && node.name.name === target.struct) {
+            occurrences.push(...node.fields.filter(field => field.name.name === target.field).map(field => field.name));
+        }
+        if (node.kind === 'MemberExpression' && node.property.name === target.field &&
+            structTypeOf(node.object, analysis, structs) === target.struct) {
+            occurrences.push(node.property);
+        }
+    });
+    return occurrences;
+}
+
+/**
+ * Names the rename would collide with at the renamed occurrences: another declaration in the same scope
+ * is an error, while capturing or shadowing a visible binding is a warning.
+ */
+export function bindingConflicts(
+    analysis: DocumentAnalysis,
+    binding: Binding | undefined,
+    occurrences: NameNode[],
+    newName: string
+): { errors: string[], warnings: string[] } {
+    const errors: string[] = [];
+    const warnings = new Set<string>();
+    const { scopes } = analysis;
+    const line = (node: NameNode) => analysis.positionAt(node.span.start).line + 1;
+
+    const redeclared = binding?.scope.bindings.find(other => other.name === newName);
+    if (redeclared) {
+        errors.push(`'${newName}' is already declared in this scope on line ${line(redeclared.declaration)}`);
+    }
+
+    for (const occurrence of occurrences) {
+        // The declaration name itself sits inside a function's own scope, so look it up where it is declared
+        const other = scopes.lookup(newName, occurrence.span.start, occurrence === binding?.declaration ? binding.scope : undefined);
+        if (other && other !== redeclared) {
+            warnings.add(`'${newName}' already refers to the ${other.kind.replace('-', ' ')} declared on line ${line(other.declaration)}`);
+        }
+    }
+
+    // A new inner declaration would hide outer uses of the name
+    if (binding && binding.scope.parent) {
+        const outer = new Set<Scope>();
+        for (let scope = binding.scope.parent; scope; scope = scope.parent) {
+            outer.add(scope);
+        }
+        for (const other of scopes.bindings) {
+            const hidden = other.name === newName && outer.has(other.scope) && other.references.some(reference =>
+                reference.span.start >= binding.visibleFrom && reference.span.end <= binding.scope.span.end);
+            if (hidden) {
+                warnings.add(`Renaming would hide the ${other.kind.replace('-', ' ')} '${newName}' declared on line ${line(other.declaration)}`);
+            }
+        }
+    }
+
+    return { errors, warnings: [...warnings] };
+}
@@ -0,0 +1,279 @@
+// Lexical scopes of a Frscript file: file → function → block, loop, try/except and switch/case.
+// Every declaration becomes a binding with the range it is visible in, and every name is resolved
+// to the innermost visible binding so shadowed names in inner blocks stay distinct.
+
+import { Identifier, Node, Program, Span, TypeRef, walk } from './ast';
+import { isDeclarationName, isSymbolName, parameterType, typeRefText, types } from './symbols';
+
+export type ScopeKind = 'file' | 'function' | 'block' | 'loop' | 'try' | 'except' | 'switch' | 'case';
+
+// A use of a name: identifiers, and struct names in type annotations
+export type NameNode = Identifier | TypeRef;
+
+export type BindingKind = 'function' | 'struct' | 'variable' | 'parameter' | 'loop-variable' | 'exception' | 'import';
+
+export interface Binding {
+    name: string;
+    kind: BindingKind;
+    declaration: Identifier;
+    // The declaring node, e.g. the VariableDeclaration or Parameter
+    node: Node;
+    scope: Scope;
+    // Uses before this offset resolve to an outer binding
+    visibleFrom: number;
+    references: NameNode[];
+}
+
+export interface Scope {
+    kind: ScopeKind;
+    span: Span;
+    parent: Scope | null;
+    children: Scope[];
+    bindings: Binding[];
+    // Names redirected to the file scope by `global`
+    globals: Set<string>;
+}
+
+function createScope(kind: ScopeKind, span: Span, parent: Scope | null): Scope {
+    const scope: Scope = { kind, span, parent, children: [], bindings: [], globals: new Set() };
+    parent?.children.push(scope);
+    return scope;
+}
+
+function contains(outer: Span, inner: Span): boolean {
+    return outer.start <= inner.start && inner.end <= outer.end;
+}
+
+// The scope a node opens, if any. Bodies of functions, loops and except clauses share the scope of their owner.
+function scopeKind(node: Node, parent: Node | null): ScopeKind | undefined {
+    switch (node.kind) {
+        case 'FunctionDeclaration':
+            return 'function';
+        case 'ForStatement':
+        case 'WhileStatement':
+            return 'loop';
+        case 'ExceptClause':
+            return 'except';
+        case 'SwitchStatement':
+            return 'switch';
+        case 'SwitchCase':
+            return 'case';
+        case 'Block':
+            if (parent && (parent.kind === 'FunctionDeclaration' || parent.kind === 'ForStatement' ||
+                parent.kind === 'WhileStatement' || parent.kind === 'ExceptClause')) {
+                return undefined;
+            }
+            return parent && parent.kind === 'TryStatement' ? 'try' : 'block';
+        default:
+            return undefined;
+    }
+}
+
+// Declared type of a variable, parameter, loop variable or exception binding
+export function bindingType(binding: Binding | undefined): string | undefined {
+    switch (binding?.node.kind) {
+        case 'VariableDeclaration':
+            // Fixed-size lists declare their element type after the name: `list items[16:int]`
+            return binding.node.elementType ? `list[${typeRefText(binding.node.elementType)}]` : typeRefText(binding.node.type);
+        case 'Parameter':
+            return parameterType(binding.node);
+        case 'ForStatement':
+            return binding.node.variableType ? typeRefText(binding.node.variableType) : undefined;
+        case 'ExceptClause':
+            return binding.node.errorType?.name;
+        default:
+            return undefined;
+    }
+}
+
+export class ScopeTree {
+    public readonly root: Scope;
+    public readonly bindings: Binding[] = [];
+    // Every use and declaration name, sorted by position
+    private identifiers: NameNode[] = [];
+    private resolved = new Map<NameNode, Binding>();
+    private unresolved: NameNode[] = [];
+    private methodCalls = new Set<Identifier>();
+
+    constructor(program: Program) {
+        this.root = createScope('file', program.span, null);
+        const uses: { identifier: NameNode, scope: Scope, fileOnly: boolean }[] = [];
+        const stack: Scope[] = [this.root];
+        const current = () => stack[stack.length - 1];
+
+        const declare = (declaration: Identifier, kind: BindingKind, node: Node, scope: Scope, visibleFrom: number) => {
+            const binding: Binding = { name: declaration.name, kind, declaration, node, scope, visibleFrom, references: [] };
+            scope.bindings.push(binding);
+            this.bindings.push(binding);
+            this.resolved.set(declaration, binding);
+        };
+
+        walk(program, (node, parent) => {
+            while (stack.length > 1 && !contains(current().span, node.span)) {
+                stack.pop();
+            }
+
+            // Names declared in the enclosing scope
+            switch (node.kind) {
+                case 'FunctionDeclaration':
+                    declare(node.name, 'function', node, current(), current().span.start);
+                    break;
+                case 'StructDeclaration':
+                    declare(node.name, 'struct', node, current(), current().span.start);
+                    break;
+                case 'VariableDeclaration':
+                    declare(node.name, 'variable', node, current(), node.span.end);
+                    break;
+                case 'PyImport': {
+                    const imported = node.alias || node.member;
+                    if (imported) {
+                        declare(imported, 'import', node, current(), node.span.end);
+                    }
+                    break;
+                }
+                case 'GlobalStatement':
+                    node.names.forEach(name => current().globals.add(name.name));
+                    break;
+                default:
+                    break;
+            }
+
+            const kind = scopeKind(node, parent);
+            if (kind) {
+                stack.push(createScope(kind, node.span, current()));
+            }
+
+            // Names declared in the scope the node opens
+            switch (node.kind) {
+                case 'Parameter':
+                    declare(node.name, 'parameter', node, current(), current().span.start);
+                    break;
+                case 'ForStatement':
+                    node.variables.forEach(variable => declare(variable, 'loop-variable', node, current(), node.body.span.start));
+                    break;
+                case 'ExceptClause':
+                    if (node.alias) {
+                        declare(node.alias, 'exception', node, current(), node.alias.span.end);
+                    }
+                    break;
+                case 'CallExpression':
+                    // Method call syntax `x.f()` calls the function f
+                    if (node.callee.kind === 'MemberExpression') {
+                        this.methodCalls.add(node.callee.property);
+                        uses.push({ identifier: node.callee.property, scope: this.root, fileOnly: true });
+                    }
+                    break;
+                case 'Identifier':
+                    if (isSymbolName(node, parent) && !isDeclarationName(node, parent)) {
+                        uses.push({ identifier: node, scope: current(), fileOnly: false });
+                    }
+                    break;
+                case 'TypeRef':
+                    if (/^\w+$/.test(node.name) && !types.includes(node.name)) {
+                        uses.push({ identifier: node, scope: current(), fileOnly: false });
+                    }
+                    break;
+                default:
+                    break;
+            }
+            return undefined;
+        });
+
+        // Resolve after collecting, since functions and structs are visible before their declaration
+        for (const { identifier, scope, fileOnly } of uses) {
+            const binding = this.lookup(identifier.name, identifier.span.start, scope);
+            const expected = fileOnly ? 'function' : identifier.kind === 'TypeRef' ? 'struct' : undefined;
+            if (binding && (!expected || binding.kind === expected)) {
+                binding.references.push(identifier);
+                this.resolved.set(identifier, binding);
+            } else {
+                this.unresolved.push(identifier);
+            }
+        }
+
+        this.identifiers = [...this.resolved.keys(), ...this.unresolved].sort((a, b) => a.span.start - b.span.start);
+    }
+
+    /** Innermost scope containing the offset. */
+    public scopeAt(offset: number): Scope {
+        let scope = this.root;
+        for (;;) {
+            const child = scope.children.find(c => c.span.start <= offset && offset <= c.span.end);
+            if (!child) {
+                return scope;
+            }
+            scope = child;
+        }
+    }
+
+    /** The binding a name refers to at an offset, searching outwards from the given scope. */
+    public lookup(name: string, offset: number, scope: Scope = this.scopeAt(offset)): Binding | undefined {
+        let inFunction = false;
+        for (let current: Scope | null = scope; current; current = current.parent) {
+            if (current.globals.has(name)) {
+                current = this.root;
+                inFunction = true;
+            }
+            const candidates = current.bindings.filter(b => b.name === name);
+            const visible = candidates.filter(b => b.visibleFrom <= offset).pop();
+            if (visible) {
+                return visible;
+            }
+            // Globals declared further down are still visible from function bodies
+            if (current === this.root && inFunction && candidates.length > 0) {
+                return candidates[0];
+            }
+            inFunction = inFunction || current.kind === 'function';
+        }
+        return undefined;
+    }
+
+    /** The declaration or use of a name at an offset. */
+    public identifierAt(offset: number): NameNode | undefined {
+        return this.identifiers.find(identifier => identifier.span.start <= offset && offset <= identifier.span.end);
+    }
+
+    /** The binding a declaration or use refers to. */
+    public bindingOf(identifier: NameNode): Binding | undefined {
+        return this.resolved.get(identifier);
+    }
+
+    public bindingAt(offset: number): Binding | undefined {
+        const identifier = this.identifierAt(offset);
+        return identifier ? this.bindingOf(identifier) : undefined;
+    }
+
+    /** Uses of a name that no declaration in the file accounts for (builtins, undeclared names). */
+    public unresolvedUses(name: string, includeMethodCalls: boolean = true): NameNode[] {
+        return this.unresolved.filter(identifier => identifier.name === name && (includeMethodCalls || !this.isMethodCall(identifier)));
+    }
+
+    public isMethodCall(identifier: NameNode): boolean {
+        return identifier.kind === 'Identifier' && this.methodCalls.has(identifier);
+    }
+}
+
+export interface SymbolReferences {
+    name: string;
+    binding?: Binding;
+    declaration?: Identifier;
+    occurrences: NameNode[];
+}
+
+// Resolve the name at an offset to its declaration and every occurrence of that binding.
+// Names without a declaration in the file (builtins, undeclared globals) match by name.
+export function referencesAt(scopes: ScopeTree, offset: number): SymbolReferences | undefined {
+    const identifier = scopes.identifierAt(offset);
+    if (!identifier) {
+        return undefined;
+    }
+
+    const binding = scopes.bindingOf(identifier);
+    if (!binding) {
+        const includeMethodCalls = scopes.isMethodCall(identifier);
+        return { name: identifier.name, occurrences: scopes.unresolvedUses(identifier.name, includeMethodCalls) };
+    }
+
+    const occurrences = [binding.declaration, ...binding.references].sort((a, b) => a.span.start - b.span.start);
+    return { name: binding.name, binding, declaration: binding.declaration, occurrences };
+}
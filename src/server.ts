@@ -0,0 +1,1419 @@
+#!/usr/bin/env node
+// Frscript language server.
+// The VS Code extension starts it through its language client; other editors run `frscript-language-server --stdio`.
+
+import * as fs from 'fs';
+import { fileURLToPath } from 'url';
+import {
+    AnnotatedTextEdit, CallHierarchyIncomingCall, CallHierarchyItem, CallHierarchyOutgoingCall, ChangeAnnotation,
+    CancellationToken, CompletionItem, CompletionItemKind, CompletionItemTag, Diagnostic, DidChangeConfigurationNotification, DocumentSymbol,
+    ErrorCodes, FileChangeType, FoldingRange, FoldingRangeKind, Hover, InitializeParams, InsertTextFormat, Location,
+    MarkupKind, ParameterInformation, Position, ProposedFeatures, Range, ResponseError, SemanticTokensBuilder, SignatureHelp, SymbolKind,
+    TextDocumentEdit, TextDocumentSyncKind, TextDocuments, TextEdit, createConnection
+} from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { FunctionDeclaration, MemberExpression, Node, Span, StructDeclaration, findNodePath, walk } from './ast';
+import { ParseResult } from './parser';
+import { DocumentAnalysis, DocumentAnalysisCache } from './analysisCache';
+import { SymbolInfo, keywords, typeRefText, types } from './symbols';
+import { baseType, typeArguments } from './typeInference';
+import { referencesAt } from './scopes';
+import { LabelScope, labelAt, labelScopeAt } from './labels';
+import {
+    FunctionInfo, builtinFunction, builtinFunctions, builtinMethod, formatParams, readBuiltinManifest, targetNote, useBuiltinManifest
+} from './builtins';
+import { cInteropDiagnostics, declarationDiagnostics, fStringDiagnostics, syntaxDiagnostics, typeDiagnostics, unusedDiagnostics } from './diagnostics';
+import { DiagnosticPipeline, DiagnosticSource } from './diagnosticPipeline';
+import { calleeDeprecation, deprecationDiagnostics, deprecationNote, docDeprecation, stripDeprecationTags } from './deprecations';
+import { WorkspaceDiagnostics } from './workspaceDiagnostics';
+import { applySuppressions } from './suppressions';
+import { applyLintRules, clearLintConfigCache, lintConfigFileName, lintRulesFor, readLintConfigFile } from './lintConfig';
+import { PythonInteropProvider, createPythonInteropDiagnostics } from './pythonInterop';
+import { MetricsProvider } from './analysis';
+import { EnhancedFormattingProvider, OnTypeFormattingProvider, RangeFormattingProvider } from './formatting';
+import { WorkspaceIndex, isWorkspaceBinding } from './workspaceIndex';
+import { StructLookup, bindingConflicts, fieldAt, fieldOccurrences, invalidNameReason, isBuiltinName } from './rename';
+import { FrscriptConfig, LineDocument, configSection, readConfig, spanToRange } from './utils';
+
+// Picks the transport from the command line: --stdio, --node-ipc or --socket=<port>
+const connection = createConnection(ProposedFeatures.all);
+const documents = new TextDocuments(TextDocument);
+
+// Parsed documents and derived data, recomputed only when the document version changes
+const analysisCache = new DocumentAnalysisCache(workspaceStruct);
+
+// Top-level declarations of every .fr file, for cross-file navigation
+const workspaceIndex = new WorkspaceIndex([], uri => {
+    const document = documents.get(uri);
+    return document ? analysisCache.get(document) : undefined;
+}, workspaceStruct);
+
+// A struct another file declares, so values of its type have fields wherever they are used
+function workspaceStruct(uri: string, name: string): StructDeclaration | undefined {
+    const declaration = workspaceIndex.declarations(name).find(found => found.uri !== uri && found.binding.kind === 'struct');
+    return declaration?.binding.node.kind === 'StructDeclaration' ? declaration.binding.node : undefined;
+}
+
+let pythonProvider = new PythonInteropProvider();
+const metricsProvider = new MetricsProvider();
+const formattingProvider = new EnhancedFormattingProvider();
+const rangeFormattingProvider = new RangeFormattingProvider();
+const onTypeFormattingProvider = new OnTypeFormattingProvider();
+
+const tokenTypes = ['function', 'variable', 'parameter', 'struct', 'property', 'method'];
+const tokenModifiers = ['declaration', 'readonly', 'deprecated', 'defaultLibrary'];
+
+// Settings pushed by clients without workspace/configuration support
+let hasConfigurationCapability = false;
+// Clients that can show annotated workspace edits in a refactor preview
+let hasChangeAnnotationSupport = false;
+let pushedSettings: unknown = {};
+let configPromise: Promise<FrscriptConfig> | undefined;
+
+function getConfig(): Promise<FrscriptConfig> {
+    if (!configPromise) {
+        configPromise = hasConfigurationCapability
+            ? connection.workspace.getConfiguration('frscript').then(settings => readConfig(configSection(settings)))
+            : Promise.resolve(readConfig(configSection(pushedSettings)));
+    }
+    return configPromise;
+}
+
+// Open documents are cached per version; documents read from disk are analyzed on demand
+function analyze(document: TextDocument): DocumentAnalysis {
+    if (!documents.get(document.uri)) {
+        // Closed files checked in the background share the analysis of the workspace index
+        const closed = workspaceIndex.analysis(document.uri);
+        if (closed && closed.text === document.getText()) {
+            return closed;
+        }
+        return new DocumentAnalysis(document.uri, document.version, document.getText(), name => workspaceStruct(document.uri, name));
+    }
+    return analysisCache.get(document);
+}
+
+function parseDocument(document: TextDocument): ParseResult {
+    return analyze(document).result;
+}
+
+function lineDocument(document: TextDocument): LineDocument {
+    return { uri: document.uri, ...analyze(document).lines };
+}
+
+// Open documents come from the client, anything else is read from disk
+function getDocument(uri: string): TextDocument | undefined {
+    const open = documents.get(uri);
+    if (open) {
+        return open;
+    }
+    try {
+        return TextDocument.create(uri, 'frscript', 0, fs.readFileSync(fileURLToPath(uri), 'utf8'));
+    } catch {
+        return undefined;
+    }
+}
+
+// The identifier-like word under the cursor
+function wordAt(document: TextDocument, position: Position): { text: string, range: Range } | undefined {
+    const line = analyze(document).lines.lineAt(position.line).text;
+    const pattern = /\w+/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(line))) {
+        const end = match.index + match[0].length;
+        if (match.index <= position.character && position.character <= end) {
+            return { text: match[0], range: Range.create(position.line, match.index, position.line, end) };
+        }
+    }
+    return undefined;
+}
+
+// The member access whose property is at the offset: `object.property`
+function memberAt(result: ParseResult, offset: number): MemberExpression | undefined {
+    const path = findNodePath(result.program, offset);
+    const target = path[path.length - 1];
+    const parent = path[path.length - 2];
+    if (target && target.kind === 'Identifier' && parent && parent.kind === 'MemberExpression' && parent.property === target) {
+        return parent;
+    }
+    return undefined;
+}
+
+function codeBlock(code: string, language: string): string {
+    return '\n```' + language + '\n' + code + '\n```\n';
+}
+
+function markdownHover(value: string): Hover {
+    return { contents: { kind: MarkupKind.Markdown, value } };
+}
+
+function markdown(value: string) {
+    return { kind: MarkupKind.Markdown, value };
+}
+
+// Without the suppressed diagnostics, and with the severities of the project's .frlint.json
+function configuredDiagnostics(document: TextDocument, diagnostics: Diagnostic[]): Diagnostic[] {
+    const kept = applySuppressions(diagnostics, analyze(document).suppressions);
+    return document.uri.startsWith('file:') ? applyLintRules(kept, lintRulesFor(fileURLToPath(document.uri))) : kept;
+}
+
+// Each analyzer publishes into its own slot; results are computed once per document version
+const diagnosticSources: DiagnosticSource[] = [
+    {
+        name: 'syntax',
+        run: document => {
+            const analysis = analyze(document);
+            return analysis.memo('diagnostics:syntax', () => syntaxDiagnostics(document, analysis));
+        }
+    },
+    {
+        name: 'types',
+        run: async (document, token) => {
+            const config = await getConfig();
+            if (token.isCancellationRequested) {
+                return [];
+            }
+            const analysis = analyze(document);
+            const key = `diagnostics:types:${config.typeChecking.numericCoercion}:${workspaceDiagnostics.generation}`;
+            return analysis.memo(key, () =>
+                typeDiagnostics(document, analysis, config, name => workspaceDiagnostics.symbol(name, document.uri)));
+        }
+    },
+    {
+        name: 'unused',
+        run: document => {
+            const analysis = analyze(document);
+            return analysis.memo('diagnostics:unused', () => unusedDiagnostics(document, analysis));
+        }
+    },
+    {
+        name: 'deprecations',
+        run: async (document, token) => {
+            const config = await getConfig();
+            if (token.isCancellationRequested) {
+                return [];
+            }
+            const analysis = analyze(document);
+            const key = `diagnostics:deprecations:${config.linting.deprecated}:${workspaceDiagnostics.generation}`;
+            return analysis.memo(key, () =>
+                deprecationDiagnostics(document, analysis, config, name => workspaceDiagnostics.symbol(name, document.uri)));
+        }
+    },
+    {
+        name: 'declarations',
+        run: document => {
+            const analysis = analyze(document);
+            return analysis.memo('diagnostics:declarations', () => declarationDiagnostics(document, analysis));
+        }
+    },
+    {
+        // Not cached: whether a name is declared depends on the other files as well
+        name: 'f-strings',
+        run: document => fStringDiagnostics(document, analyze(document), name =>
+            workspaceIndex.declarations(name).some(declaration => declaration.uri !== document.uri))
+    },
+    // Python interop, metrics and header lookups are slower, so they wait until typing pauses
+    {
+        name: 'python',
+        delayed: true,
+        run: (document, token) => createPythonInteropDiagnostics(document, pythonProvider, token)
+    },
+    {
+        name: 'metrics',
+        delayed: true,
+        run: async (document, token) => {
+            const config = await getConfig();
+            return token.isCancellationRequested ? [] : metricsProvider.createMetricsDiagnostics(document, config);
+        }
+    },
+    {
+        name: 'c',
+        delayed: true,
+        run: (document, token) => cInteropDiagnostics(document, analyze(document), token)
+    }
+];
+
+const diagnosticPipeline = new DiagnosticPipeline(
+    diagnosticSources,
+    (document, diagnostics) => connection.sendDiagnostics({
+        uri: document.uri,
+        version: document.version,
+        diagnostics: configuredDiagnostics(document, diagnostics)
+    }),
+    (source, error) => connection.console.error(
+        `${source ? `Diagnostics from '${source.name}'` : 'Publishing diagnostics'} failed: ${error instanceof Error ? error.stack : error}`
+    )
+);
+
+// Closed files run every source in turn, as the editor is not waiting for them
+async function checkClosedFile(document: TextDocument, token: CancellationToken): Promise<Diagnostic[]> {
+    const diagnostics: Diagnostic[] = [];
+    for (const source of diagnosticSources) {
+        if (token.isCancellationRequested) {
+            break;
+        }
+        diagnostics.push(...await source.run(document, token));
+    }
+    return configuredDiagnostics(document, diagnostics);
+}
+
+const workspaceDiagnostics = new WorkspaceDiagnostics(
+    workspaceIndex,
+    uri => !!documents.get(uri),
+    checkClosedFile,
+    (uri, diagnostics) => connection.sendDiagnostics({ uri, diagnostics }),
+    uri => {
+        const document = documents.get(uri);
+        if (document) {
+            diagnosticPipeline.update(document);
+        }
+    }
+);
+
+// `frscript.diagnostics.scope` decides whether closed files are checked too
+async function updateWorkspaceDiagnostics() {
+    const config = await getConfig();
+    workspaceDiagnostics.setEnabled(config.diagnostics.scope === 'workspace');
+    if (workspaceDiagnostics.isEnabled) {
+        workspaceDiagnostics.checkAll();
+    }
+}
+
+connection.onInitialize((params: InitializeParams) => {
+    hasConfigurationCapability = !!params.capabilities.workspace?.configuration;
+    const workspaceEdit = params.capabilities.workspace?.workspaceEdit;
+    hasChangeAnnotationSupport = !!(workspaceEdit?.documentChanges && workspaceEdit.changeAnnotationSupport);
+
+    const rootUri = params.workspaceFolders?.[0]?.uri ?? params.rootUri;
+    if (rootUri && rootUri.startsWith('file:')) {
+        pythonProvider = new PythonInteropProvider(fileURLToPath(rootUri));
+    }
+
+    const roots = params.workspaceFolders?.map(folder => folder.uri) ?? (params.rootUri ? [params.rootUri] : []);
+    workspaceIndex.setRoots(roots.filter(uri => uri.startsWith('file:')).map(uri => fileURLToPath(uri)));
+
+    return {
+        capabilities: {
+            textDocumentSync: TextDocumentSyncKind.Incremental,
+            completionProvider: { triggerCharacters: ['.'] },
+            hoverProvider: true,
+            signatureHelpProvider: { triggerCharacters: ['(', ','] },
+            documentSymbolProvider: true,
+            definitionProvider: true,
+            referencesProvider: true,
+            renameProvider: { prepareProvider: true },
+            documentFormattingProvider: true,
+            documentRangeFormattingProvider: true,
+            documentOnTypeFormattingProvider: { firstTriggerCharacter: '{', moreTriggerCharacter: ['\n', '}'] },
+            semanticTokensProvider: { legend: { tokenTypes, tokenModifiers }, full: true },
+            callHierarchyProvider: true,
+            foldingRangeProvider: true
+        }
+    };
+});
+
+connection.onInitialized(async () => {
+    if (hasConfigurationCapability) {
+        connection.client.register(DidChangeConfigurationNotification.type, undefined);
+    }
+
+    // Prefer the manifest of the installed runtime so builtins match the version actually used
+    const runtimeManifest = await pythonProvider.findRuntimeManifest();
+    const manifest = runtimeManifest ? readBuiltinManifest(runtimeManifest) : undefined;
+    if (manifest) {
+        useBuiltinManifest(manifest);
+        documents.all().forEach(document => {
+            analysisCache.invalidate(document.uri);
+        });
+        diagnosticPipeline.updateAll(documents.all());
+        connection.console.log(`Using builtins of fr ${manifest.runtime ?? ''} from ${runtimeManifest}`);
+    }
+    updateWorkspaceDiagnostics();
+});
+
+connection.onDidChangeConfiguration(change => {
+    pushedSettings = change.settings?.frscript ?? {};
+    configPromise = undefined;
+    diagnosticPipeline.updateAll(documents.all());
+    updateWorkspaceDiagnostics();
+});
+
+// The client watches **/*.fr and **/.frlint.json on disk
+connection.onDidChangeWatchedFiles(params => {
+    let lintConfigChanged = false;
+    for (const change of params.changes) {
+        if (change.uri.endsWith('/' + lintConfigFileName)) {
+            lintConfigChanged = true;
+            const { error } = change.type === FileChangeType.Deleted ? {} : readLintConfigFile(fileURLToPath(change.uri));
+            if (error) {
+                connection.console.error(`Ignoring ${fileURLToPath(change.uri)}: ${error}`);
+            }
+        } else {
+            workspaceIndex.fileChanged(change.uri, change.type === FileChangeType.Created, change.type === FileChangeType.Deleted);
+            if (!documents.get(change.uri)) {
+                pythonProvider.clearCache({ uri: change.uri });
+            }
+            workspaceDiagnostics.fileChanged(change.uri, change.type === FileChangeType.Deleted);
+        }
+    }
+    if (lintConfigChanged) {
+        clearLintConfigCache();
+        diagnosticPipeline.updateAll(documents.all());
+        updateWorkspaceDiagnostics();
+    }
+});
+
+documents.onDidOpen(event => {
+    workspaceDiagnostics.opened(event.document.uri);
+});
+
+documents.onDidChangeContent(change => {
+    pythonProvider.clearCache(change.document);
+    workspaceDiagnostics.documentChanged(change.document.uri, analyze(change.document));
+    diagnosticPipeline.update(change.document);
+});
+
+documents.onDidClose(event => {
+    analysisCache.invalidate(event.document.uri);
+    pythonProvider.clearCache(event.document);
+    diagnosticPipeline.remove(event.document.uri);
+    // In workspace scope the file is checked again from disk instead
+    if (!workspaceDiagnostics.closed(event.document.uri)) {
+        connection.sendDiagnostics({ uri: event.document.uri, diagnostics: [] });
+    }
+});
+
+connection.onCompletion(async params => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) {
+        return [];
+    }
+    const { position } = params;
+    const completionItems: CompletionItem[] = [];
+
+    // Check if we're typing after a dot (for Python module members)
+    const lineText = analyze(document).lines.lineAt(position.line).text;
+    const textBeforeCursor = lineText.substring(0, position.character);
+    const dotMatch = textBeforeCursor.match(/(\w+)\.(\w*)$/);
+
+    // Labels of the enclosing function after `goto`
+    if (/\bgoto\s+\w*$/.test(textBeforeCursor)) {
+        const scope = labelScopeAt(analyze(document).labels, document.offsetAt(position));
+        return [...(scope?.labels.values() ?? [])].map(label => ({ label: label.name, kind: CompletionItemKind.Reference, detail: `#label ${label.name}` }));
+    }
+
+    // Fields of struct values, and functions taking the struct first for method call syntax
+    const chainMatch = textBeforeCursor.match(/((?:\w+(?:\([^()]*\))?(?:\[[^[\]]*\])*\.)*\w+(?:\([^()]*\))?(?:\[[^[\]]*\])*)\.\w*$/);
+    if (chainMatch) {
+        const { symbols, typeInference } = analyze(document);
+        const chainOffset = document.offsetAt(position) - (textBeforeCursor.length - chainMatch.index!);
+        const structType = typeInference.chainType(chainMatch[1], chainOffset);
+        // The struct may be declared in another file
+        const struct = structType ? typeInference.struct(structType) : undefined;
+        if (struct) {
+            const structName = struct.name.name;
+            struct.fields.forEach(field => {
+                completionItems.push({ label: field.name.name, kind: CompletionItemKind.Field, detail: `${typeRefText(field.type)} ${structName}.${field.name.name}` });
+            });
+            symbols.filter(s => s.type === 'function' && s.parameters?.[0]?.type === structName).forEach(func => {
+                completionItems.push({
+                    label: func.name,
+                    kind: CompletionItemKind.Method,
+                    detail: `${func.returnType || 'void'} ${func.name}(${func.parameters!.map(p => `${p.type} ${p.name}`).join(', ')})`,
+                    documentation: func.documentation ? markdown(symbolDocumentation(func.documentation)) : undefined,
+                    tags: docDeprecation(func.documentation) ? [CompletionItemTag.Deprecated] : undefined
+                });
+            });
+            return completionItems;
+        }
+    }
+
+    if (dotMatch) {
+        const objectName = dotMatch[1];
+
+        // First check if it's a Python module
+        const pythonImports = pythonProvider.getImports(lineDocument(document));
+        const pythonImport = pythonImports.find(imp =>
+            imp.alias === objectName || imp.name === objectName
+        );
+
+        if (pythonImport) {
+            // Get module members using Python introspection
+            const members = await pythonProvider.getModuleMembers(pythonImport.name);
+
+            if (members && members.length > 0) {
+                members.forEach(member => {
+                    completionItems.push({
+                        label: member.name,
+                        kind: member.type === 'class' ? CompletionItemKind.Class :
+                            member.type === 'function' ? CompletionItemKind.Function :
+                            CompletionItemKind.Variable,
+                        detail: member.signature || `${pythonImport.name}.${member.name}`,
+                        documentation: member.doc ? markdown(member.doc) : undefined
+                    });
+                });
+
+                return completionItems;
+            }
+        } else {
+            // Check if it's a variable that was assigned from a Python class
+            // Look for pattern: pyobj variableName = module.ClassName(...)
+            const text = document.getText();
+            const varAssignPattern = new RegExp(`pyobj\\s+${objectName}\\s*=\\s*(\\w+)\\.(\\w+)\\s*\\(`, 'g');
+            const varMatch = varAssignPattern.exec(text);
+
+            if (varMatch) {
+                const moduleName = varMatch[1];
+                const className = varMatch[2];
+
+                // Find the Python module
+                const moduleImport = pythonImports.find(imp =>
+                    imp.alias === moduleName || imp.name === moduleName
+                );
+
+                if (moduleImport) {
+                    // Get members of the class
+                    const members = await pythonProvider.getClassMembers(moduleImport.name, className);
+
+                    if (members && members.length > 0) {
+                        members.forEach(member => {
+                            completionItems.push({
+                                label: member.name,
+                                kind: member.type === 'method' ? CompletionItemKind.Method : CompletionItemKind.Property,
+                                detail: member.signature || `${className}.${member.name}`,
+                                documentation: member.doc ? markdown(member.doc) : undefined
+                            });
+                        });
+
+                        return completionItems;
+                    }
+                }
+            }
+        }
+    }
+
+    // Add built-in functions with better suggestions
+    builtinFunctions.forEach(func => {
+        const item: CompletionItem = {
+            label: func.name,
+            kind: CompletionItemKind.Function,
+            detail: func.detail || func.signature,
+            documentation: markdown(builtinDocumentation(func))
+        };
+
+        if (func.insertText) {
+            item.insertText = func.insertText;
+            item.insertTextFormat = InsertTextFormat.Snippet;
+        }
+
+        if (func.deprecated) {
+            item.tags = [CompletionItemTag.Deprecated];
+        }
+
+        // Boost println over print
+        if (func.name === 'println') {
+            item.sortText = '0_println';
+        }
+
+        completionItems.push(item);
+    });
+
+    // Add user-defined symbols
+    const analysis = analyze(document);
+    analysis.symbols.forEach(symbol => {
+        const item: CompletionItem = {
+            label: symbol.name,
+            kind: symbol.type === 'function' ? CompletionItemKind.Function :
+                symbol.type === 'struct' ? CompletionItemKind.Struct :
+                CompletionItemKind.Variable
+        };
+        if (symbol.documentation) {
+            item.documentation = markdown(symbolDocumentation(symbol.documentation));
+        }
+        if (symbol.type === 'function' && docDeprecation(symbol.documentation)) {
+            item.tags = [CompletionItemTag.Deprecated];
+        }
+        // Add signature for functions
+        if (symbol.type === 'function' && symbol.returnType && symbol.parameters) {
+            const params = symbol.parameters.map(p => `${p.type} ${p.name}`).join(', ');
+            item.detail = `${symbol.returnType} ${symbol.name}(${params})`;
+        }
+        completionItems.push(item);
+    });
+
+    // Add C imported symbols
+    analysis.cSymbols.forEach(cSymbol => {
+        completionItems.push({
+            label: cSymbol.name,
+            kind: cSymbol.type === 'function' ? CompletionItemKind.Function :
+                cSymbol.type === 'struct' ? CompletionItemKind.Struct :
+                CompletionItemKind.Constant,
+            detail: cSymbol.signature || cSymbol.name,
+            documentation: cSymbol.documentation ? markdown(cSymbol.documentation) : undefined,
+            sortText: '1_' + cSymbol.name  // Sort after built-ins but before user symbols
+        });
+    });
+
+    // Add keywords
+    keywords.forEach(keyword => {
+        completionItems.push({ label: keyword, kind: CompletionItemKind.Keyword });
+    });
+
+    // Add types
+    types.forEach(type => {
+        completionItems.push({ label: type, kind: CompletionItemKind.TypeParameter });
+    });
+
+    return completionItems;
+});
+
+// Hover text for `x.f(...)` where f is a user function taking x as its first parameter
+function methodCallHover(funcSymbol: { name: string, returnType?: string, parameters?: { name: string, type: string }[], documentation?: string }, objectName: string): Hover {
+    let signature = `${funcSymbol.returnType || 'void'} ${funcSymbol.name}(${objectName}`;
+    if (funcSymbol.parameters && funcSymbol.parameters.length > 1) {
+        const restParams = funcSymbol.parameters.slice(1).map(p => `${p.type} ${p.name}`).join(', ');
+        signature += ', ' + restParams;
+    }
+    signature += ')';
+
+    let value = codeBlock(signature, 'frscript');
+    if (funcSymbol.documentation) {
+        value += '\n\n' + symbolDocumentation(funcSymbol.documentation);
+    }
+    value += '\n\n_Method call syntax (equivalent to calling the function with the object as first parameter)_';
+    return markdownHover(value);
+}
+
+// Hover text for a Python signature as printed by PythonInteropProvider.getPythonSignature
+function pythonSignatureHover(signature: string, origin: string): Hover {
+    const lines = signature.split('\n');
+
+    // First line is the signature
+    let value = codeBlock(lines[0], 'python');
+
+    // If there's a docstring, add it
+    if (lines.length > 1 && lines[1].startsWith('DOC:')) {
+        value += '\n\n' + lines[1].substring(4);
+    }
+
+    value += `\n\n${origin}`;
+    return markdownHover(value);
+}
+
+// Struct declaration with its fields
+function structCode(struct: SymbolInfo): string {
+    let code = `struct ${struct.name} {\n`;
+    struct.fields?.forEach(field => {
+        code += `    ${field.type} ${field.name}\n`;
+    });
+    return code + '}';
+}
+
+// Fields of a struct-typed value, appended to its hover
+function structHover(symbols: SymbolInfo[], type: string | null): string {
+    const struct = type ? symbols.find(s => s.type === 'struct' && s.name === type) : undefined;
+    return struct ? '\n' + codeBlock(structCode(struct), 'frscript') : '';
+}
+
+// Description, availability and deprecation of a builtin as markdown
+function builtinDocumentation(func: FunctionInfo): string {
+    let value = func.description;
+    const note = targetNote(func);
+    if (note) {
+        value += '\n\n' + note;
+    }
+    if (func.deprecated) {
+        value += '\n\n' + deprecationNote({ message: func.message, replacement: func.replacement });
+    }
+    return value;
+}
+
+// A `///` doc as markdown, with its deprecation tags turned into a note
+function symbolDocumentation(documentation: string): string {
+    const deprecation = docDeprecation(documentation);
+    const text = stripDeprecationTags(documentation);
+    return deprecation ? (text ? text + '\n\n' : '') + deprecationNote(deprecation) : text;
+}
+
+connection.onHover(async params => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) {
+        return null;
+    }
+    const { position } = params;
+    const word = wordAt(document, position)?.text;
+    if (!word) {
+        return null;
+    }
+
+    const analysis = analyze(document);
+    const { symbols, scopes } = analysis;
+    const offset = document.offsetAt(position);
+
+    // Check for method call pattern x.y(...) FIRST
+    const member = memberAt(analysis.result, offset);
+    if (member) {
+        const objectName = document.getText(spanToRange(document, member.object.span));
+
+        // Try to infer the object's type
+        const objectType = analysis.typeInference.typeOf(member.object);
+
+        // Fields of struct values, however the value was produced
+        const fieldType = objectType ? analysis.typeInference.fieldType(objectType, word) : null;
+        if (fieldType) {
+            return markdownHover(codeBlock(`${fieldType} ${word}`, 'frscript') + `\n\n_Field of ${objectType}_`);
+        }
+
+        // Then check if it's a user-defined function
+        const funcSymbol = symbols.find(s => s.type === 'function' && s.name === word);
+        if (funcSymbol) {
+            return methodCallHover(funcSymbol, objectName);
+        }
+
+        const method = objectType ? builtinMethod(baseType(objectType), word) : undefined;
+        if (method) {
+            return markdownHover(codeBlock(method.signature, 'frscript') + '\n\n' + builtinDocumentation(method) + `\n\n_Method on ${objectType}_`);
+        }
+    }
+
+    // Names bound in this file win over builtins, and shadowed names resolve to the innermost declaration
+    const binding = member ? undefined : scopes.bindingAt(offset);
+    if (binding && (binding.kind === 'parameter' || binding.kind === 'loop-variable' || binding.kind === 'exception')) {
+        const type = analysis.typeInference.declaredType(binding) || 'any';
+        return markdownHover(codeBlock(`${type} ${binding.name}`, 'frscript') + `\n\n_${binding.kind.replace('-', ' ')}_` + structHover(symbols, type));
+    }
+
+    // Check built-in functions
+    const func = binding ? undefined : builtinFunction(word);
+    if (func) {
+        return markdownHover(codeBlock(func.signature, 'frscript') + '\n\n' + builtinDocumentation(func));
+    }
+
+    // Check user-defined symbols
+    // After a dot only functions apply, through method call syntax; never a variable of the same name
+    const symbol = binding
+        ? symbols.find(s => s.nameSpan.start === binding.declaration.span.start)
+        : symbols.find(s => s.name === word && (!member || s.type === 'function'));
+    if (symbol) {
+        let value = '';
+
+        if (symbol.type === 'function') {
+            // Build function signature with proper formatting
+            let signature = `${symbol.returnType || 'void'} ${symbol.name}(`;
+            if (symbol.parameters && symbol.parameters.length > 0) {
+                signature += symbol.parameters.map(p => `${p.type} ${p.name}`).join(', ');
+            }
+            signature += ')';
+            value += codeBlock(signature, 'frscript');
+        } else if (symbol.type === 'variable') {
+            // Variable - show type and declaration
+            value += codeBlock(document.getText(spanToRange(document, symbol.span)), 'frscript');
+
+            // Containers declared without element types show the ones inferred from the initializer
+            const variable = scopes.bindingAt(symbol.nameSpan.start);
+            const declared = analysis.typeInference.declaredType(variable);
+            const init = variable?.node.kind === 'VariableDeclaration' ? variable.node.init : null;
+            const inferred = init ? analysis.typeInference.typeOf(init) : null;
+            if (declared && inferred && typeArguments(declared).length === 0 && typeArguments(inferred).length > 0 &&
+                baseType(declared) === baseType(inferred)) {
+                value += `\n\nInferred type: \`${inferred}\``;
+            }
+            value += structHover(symbols, declared);
+        } else if (symbol.type === 'struct') {
+            // Struct - show with fields
+            value += codeBlock(structCode(symbol), 'frscript');
+        }
+
+        if (symbol.documentation) {
+            value += '\n\n' + symbolDocumentation(symbol.documentation);
+        }
+
+        return markdownHover(value);
+    }
+
+    // Check C imported symbols
+    const cSymbol = analysis.cSymbols.find(s => s.name === word);
+    if (cSymbol) {
+        let value = codeBlock(cSymbol.signature || cSymbol.name, 'c');
+        if (cSymbol.documentation) {
+            value += '\n\n' + cSymbol.documentation;
+        }
+        value += '\n\n🔗 From C import';
+        return markdownHover(value);
+    }
+
+    // Check for Python attribute access (e.g., ui.Window or window.title)
+    const pythonImports = pythonProvider.getImports(lineDocument(document));
+    if (member) {
+        const objectName = document.getText(spanToRange(document, member.object.span));
+        const attributeName = member.property.name;
+
+        // First check if it's a module
+        const pythonImport = pythonImports.find(imp =>
+            imp.alias === objectName || imp.name === objectName
+        );
+
+        if (pythonImport) {
+            const actualModuleName = pythonImport.name;
+
+            // Get Python signature asynchronously
+            const signature = await pythonProvider.getPythonSignature(actualModuleName, attributeName);
+            if (signature) {
+                return pythonSignatureHover(signature, `📦 From module: \`${actualModuleName}\``);
+            }
+
+            // Fallback when introspection fails
+            return markdownHover(
+                codeBlock(`${objectName}.${attributeName}`, 'python') +
+                `\n\n📦 From Python module: \`${actualModuleName}\`` +
+                '\n\n_Note: Install the module to see full signature_'
+            );
+        }
+
+        // Check if it's a variable assigned from a Python class
+        const varAssignPattern = new RegExp(`pyobj\\s+${objectName}\\s*=\\s*(\\w+)\\.(\\w+)\\s*\\(`, 'g');
+        const varMatch = varAssignPattern.exec(document.getText());
+
+        if (varMatch) {
+            const moduleName = varMatch[1];
+            const className = varMatch[2];
+
+            // Find the Python module
+            const moduleImport = pythonImports.find(imp =>
+                imp.alias === moduleName || imp.name === moduleName
+            );
+
+            if (moduleImport) {
+                // Get the attribute signature from the class
+                const signature = await pythonProvider.getPythonSignature(moduleImport.name, `${className}.${attributeName}`);
+                if (signature) {
+                    return pythonSignatureHover(signature, `📦 From class: \`${moduleImport.name}.${className}\``);
+                }
+            }
+        }
+    }
+
+    // Check Python imports (module names)
+    const pythonImport = pythonImports.find(imp =>
+        imp.name === word || imp.alias === word
+    );
+    if (pythonImport) {
+        const displayName = pythonImport.alias ?
+            `${pythonImport.name} (as ${pythonImport.alias})` :
+            pythonImport.name;
+        return markdownHover(
+            codeBlock(`from python import ${displayName}`, 'frscript') +
+            `\n\n📦 **Python module**: \`${pythonImport.name}\``
+        );
+    }
+
+    // Check types
+    if (types.includes(word)) {
+        return markdownHover(`\`type: ${word}\``);
+    }
+
+    return null;
+});
+
+connection.onSignatureHelp(async params => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) {
+        return null;
+    }
+    const { position } = params;
+    const lineText = analyze(document).lines.lineAt(position.line).text;
+    const textBeforeCursor = lineText.substring(0, position.character);
+
+    // Check for Python module.function( pattern
+    const pythonMatch = textBeforeCursor.match(/(\w+)\.(\w+)\s*\([^)]*$/);
+    if (pythonMatch) {
+        const moduleName = pythonMatch[1];
+        const functionName = pythonMatch[2];
+
+        // Check if it's a Python module
+        const pythonImports = pythonProvider.getImports(lineDocument(document));
+        const pythonImport = pythonImports.find(imp =>
+            imp.alias === moduleName || imp.name === moduleName
+        );
+
+        if (pythonImport) {
+            const signature = await pythonProvider.getPythonSignature(pythonImport.name, functionName);
+
+            if (signature) {
+                const lines = signature.split('\n');
+                const documentation = lines.length > 1 && lines[1].startsWith('DOC:')
+                    ? markdown(lines[1].substring(4))
+                    : undefined;
+
+                const signatureHelp: SignatureHelp = {
+                    signatures: [{ label: lines[0], documentation }],
+                    activeSignature: 0,
+                    activeParameter: 0
+                };
+                return signatureHelp;
+            }
+        }
+    }
+
+    // Check for regular function calls
+    const match = textBeforeCursor.match(/(\w+)\s*\([^)]*$/);
+    if (!match) {
+        return null;
+    }
+
+    const func = builtinFunction(match[1]);
+    if (func) {
+        // Commas typed so far select the parameter; a variadic parameter takes every remaining argument
+        const argumentIndex = (match[0].match(/,/g) || []).length;
+        const variadic = func.params.findIndex(param => param.variadic);
+        const activeParameter = variadic >= 0 ? Math.min(argumentIndex, variadic) : argumentIndex;
+        const signatureHelp: SignatureHelp = {
+            signatures: [{
+                label: func.signature,
+                documentation: markdown(builtinDocumentation(func)),
+                parameters: formatParams(func).map(label => ParameterInformation.create(label))
+            }],
+            activeSignature: 0,
+            activeParameter
+        };
+        return signatureHelp;
+    }
+
+    return null;
+});
+
+// Switch statements with their arms, nested inside the arm that contains them
+function switchSymbols(document: TextDocument, root: Node): DocumentSymbol[] {
+    const symbols: DocumentSymbol[] = [];
+    walk(root, node => {
+        if (node.kind === 'FunctionDeclaration') {
+            return false;
+        }
+        if (node.kind !== 'SwitchStatement') {
+            return undefined;
+        }
+        const text = (span: Span) => document.getText(spanToRange(document, span));
+        symbols.push(DocumentSymbol.create(
+            `switch ${text(node.discriminant.span)}`,
+            undefined,
+            SymbolKind.Operator,
+            spanToRange(document, node.span),
+            spanToRange(document, node.discriminant.span),
+            node.cases.map(arm => {
+                const range = spanToRange(document, arm.span);
+                return DocumentSymbol.create(
+                    arm.isDefault ? 'default' : `case ${arm.tests.map(test => text(test.span)).join(', ')}`,
+                    undefined,
+                    SymbolKind.EnumMember,
+                    range,
+                    arm.tests.length > 0 ? spanToRange(document, { start: arm.tests[0].span.start, end: arm.tests[arm.tests.length - 1].span.end }) : range,
+                    arm.body.flatMap(statement => switchSymbols(document, statement))
+                );
+            })
+        ));
+        return false;
+    });
+    return symbols;
+}
+
+function labelSymbols(document: TextDocument, scope: LabelScope | undefined): DocumentSymbol[] {
+    return [...(scope?.labels.values() ?? [])].map(label => {
+        const range = spanToRange(document, label.declaration.span);
+        return DocumentSymbol.create(label.name, '#label', SymbolKind.Key, range, range);
+    });
+}
+
+// Outline children in source order
+function byPosition(symbols: DocumentSymbol[]): DocumentSymbol[] {
+    return symbols.sort((a, b) => a.range.start.line - b.range.start.line || a.range.start.character - b.range.start.character);
+}
+
+connection.onDocumentSymbol(params => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) {
+        return [];
+    }
+    const symbols: DocumentSymbol[] = [];
+    const analysis = analyze(document);
+    const { program } = analysis.result;
+    const labelScope = (root: Node) => analysis.labels.find(scope => scope.root === root);
+
+    program.body.forEach(statement => {
+        if (statement.kind === 'FunctionDeclaration') {
+            symbols.push(DocumentSymbol.create(
+                statement.name.name,
+                statement.documentation || '',
+                SymbolKind.Function,
+                spanToRange(document, statement.span),
+                spanToRange(document, statement.name.span),
+                statement.body
+                    ? byPosition([...switchSymbols(document, statement.body), ...labelSymbols(document, labelScope(statement.body))])
+                    : undefined
+            ));
+        } else if (statement.kind === 'StructDeclaration') {
+            symbols.push(DocumentSymbol.create(
+                statement.name.name,
+                statement.documentation || '',
+                SymbolKind.Struct,
+                spanToRange(document, statement.span),
+                spanToRange(document, statement.name.span),
+                statement.fields.map(field => DocumentSymbol.create(
+                    field.name.name,
+                    typeRefText(field.type),
+                    SymbolKind.Field,
+                    spanToRange(document, field.span),
+                    spanToRange(document, field.name.span)
+                ))
+            ));
+        } else if (statement.kind === 'VariableDeclaration') {
+            symbols.push(DocumentSymbol.create(
+                statement.name.name,
+                typeRefText(statement.type),
+                statement.isConst ? SymbolKind.Constant : SymbolKind.Variable,
+                spanToRange(document, statement.span),
+                spanToRange(document, statement.name.span)
+            ));
+        } else {
+            symbols.push(...switchSymbols(document, statement));
+        }
+    });
+
+    return byPosition([...symbols, ...labelSymbols(document, labelScope(program))]);
+});
+
+// Workspace files with the requesting document first, which may be untitled or outside the workspace
+function workspaceUris(uri: string): string[] {
+    return [uri, ...workspaceIndex.uris().filter(other => other !== uri)];
+}
+
+connection.onDefinition(params => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) {
+        return null;
+    }
+
+    // `goto name` jumps to its `#label name`
+    const label = labelAt(analyze(document).labels, document.offsetAt(params.position));
+    if (label) {
+        return label.label ? Location.create(document.uri, spanToRange(document, label.label.declaration.span)) : null;
+    }
+
+    const references = referencesAt(analyze(document).scopes, document.offsetAt(params.position));
+    if (!references) {
+        return null;
+    }
+
+    if (references.declaration) {
+        return Location.create(document.uri, spanToRange(document, references.declaration.span));
+    }
+
+    // Functions, structs and globals declared in another file
+    const declarations = workspaceIndex.declarations(references.name, workspaceUris(document.uri));
+    if (declarations.length > 0) {
+        return declarations.map(({ uri, analysis, binding }) => Location.create(uri, spanToRange(analysis, binding.declaration.span)));
+    }
+
+    // Fall back to a declaration anywhere in the file
+    const symbol = analyze(document).symbols.find(s => s.name === references.name);
+    if (symbol) {
+        return Location.create(document.uri, spanToRange(document, symbol.nameSpan));
+    }
+
+    return null;
+});
+
+connection.onReferences(params => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) {
+        return [];
+    }
+
+    const label = labelAt(analyze(document).labels, document.offsetAt(params.position));
+    if (label) {
+        const occurrences = label.label
+            ? [...(params.context.includeDeclaration ? [label.label.declaration] : []), ...label.label.references]
+            : label.scope.unresolved.filter(identifier => identifier.name === label.identifier.name);
+        return occurrences.map(identifier => Location.create(document.uri, spanToRange(document, identifier.span)));
+    }
+    const references = referencesAt(analyze(document).scopes, document.offsetAt(params.position));
+    if (!references) {
+        return [];
+    }
+
+    // Locals, parameters and imports never leave their file
+    if (references.binding && !isWorkspaceBinding(references.binding)) {
+        return references.occurrences
+            .filter(occurrence => params.context.includeDeclaration || occurrence !== references.declaration)
+            .map(occurrence => Location.create(document.uri, spanToRange(document, occurrence.span)));
+    }
+
+    // Grouped per file, starting with the current one
+    return workspaceIndex.references(references.name, workspaceUris(document.uri)).flatMap(({ uri, analysis, identifiers }) =>
+        identifiers
+            .filter(identifier => params.context.includeDeclaration || analysis.scopes.bindingOf(identifier)?.declaration !== identifier)
+            .map(identifier => Location.create(uri, spanToRange(analysis, identifier.span)))
+    );
+});
+
+// Struct declarations by name, preferring the given files in order; memoized for one request
+function structLookup(uris: string[]): StructLookup {
+    const found = new Map<string, StructDeclaration | undefined>();
+    return name => {
+        if (!found.has(name)) {
+            const declaration = workspaceIndex.declarations(name, uris).find(d => d.binding.kind === 'struct');
+            found.set(name, declaration?.binding.node as StructDeclaration | undefined);
+        }
+        return found.get(name);
+    };
+}
+
+connection.onPrepareRename(params => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) {
+        return null;
+    }
+    const analysis = analyze(document);
+    const offset = document.offsetAt(params.position);
+    const uris = workspaceUris(document.uri);
+
+    const field = fieldAt(analysis, offset, structLookup(uris));
+    if (field) {
+        return spanToRange(document, field.identifier.span);
+    }
+
+    const identifier = analysis.scopes.identifierAt(offset);
+    if (!identifier) {
+        return null;
+    }
+    if (!analysis.scopes.bindingOf(identifier) && workspaceIndex.declarations(identifier.name, uris).length === 0) {
+        throw new ResponseError(ErrorCodes.InvalidRequest, isBuiltinName(identifier.name)
+            ? `'${identifier.name}' is a builtin and cannot be renamed`
+            : `'${identifier.name}' is not declared in the workspace`);
+    }
+    return spanToRange(document, identifier.span);
+});
+
+connection.onRenameRequest(params => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) {
+        return null;
+    }
+    const { newName } = params;
+    const invalid = invalidNameReason(newName);
+    if (invalid) {
+        throw new ResponseError(ErrorCodes.InvalidRequest, invalid);
+    }
+
+    const analysis = analyze(document);
+    const offset = document.offsetAt(params.position);
+    const uris = workspaceUris(document.uri);
+    const structs = structLookup(uris);
+    const files: { uri: string, analysis: DocumentAnalysis, spans: Span[] }[] = [];
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    let oldName: string;
+
+    const field = fieldAt(analysis, offset, structs);
+    const references = field ? undefined : referencesAt(analysis.scopes, offset);
+    if (field) {
+        // Fields are renamed wherever a value of the struct's type is accessed
+        oldName = field.field;
+        if (structs(field.struct)?.fields.some(other => other.name.name === newName)) {
+            errors.push(`Struct '${field.struct}' already has a field '${newName}'`);
+        }
+        for (const uri of uris) {
+            const fileAnalysis = workspaceIndex.analysis(uri);
+            const occurrences = fileAnalysis ? fieldOccurrences(fileAnalysis, field, structs) : [];
+            if (fileAnalysis && occurrences.length > 0) {
+                files.push({ uri, analysis: fileAnalysis, spans: occurrences.map(occurrence => occurrence.span) });
+            }
+        }
+    } else if (references && references.binding && !isWorkspaceBinding(references.binding)) {
+        // Locals, parameters and imports are renamed within their scope only
+        oldName = references.name;
+        const conflicts = bindingConflicts(analysis, references.binding, references.occurrences, newName);
+        errors.push(...conflicts.errors);
+        warnings.push(...conflicts.warnings);
+        files.push({ uri: document.uri, analysis, spans: references.occurrences.map(occurrence => occurrence.span) });
+    } else if (references) {
+        // Functions, structs and globals are shared by every file of the workspace
+        oldName = references.name;
+        for (const { uri, analysis: fileAnalysis, binding } of workspaceIndex.declarations(newName, uris)) {
+            const name = uri === document.uri ? 'this file' : uri.split('/').pop();
+            errors.push(`'${newName}' is already declared in ${name} on line ${fileAnalysis.positionAt(binding.declaration.span.start).line + 1}`);
+        }
+        for (const { uri, analysis: fileAnalysis, identifiers } of workspaceIndex.references(oldName, uris)) {
+            const binding = fileAnalysis.scopes.root.bindings.find(b => b.name === oldName && isWorkspaceBinding(b));
+            const conflicts = bindingConflicts(fileAnalysis, binding, identifiers, newName);
+            errors.push(...conflicts.errors);
+            warnings.push(...conflicts.warnings);
+            files.push({ uri, analysis: fileAnalysis, spans: identifiers.map(identifier => identifier.span) });
+        }
+    } else {
+        return null;
+    }
+
+    if (errors.length > 0) {
+        throw new ResponseError(ErrorCodes.InvalidRequest, `Cannot rename '${oldName}': ${errors[0]}`);
+    }
+    if (isBuiltinName(newName)) {
+        warnings.push(`'${newName}' will shadow the builtin function`);
+    }
+
+    const rangeIn = (uri: string, fileAnalysis: DocumentAnalysis, span: Span) =>
+        uri === document.uri ? spanToRange(document, span) : spanToRange(fileAnalysis, span);
+
+    if (!hasChangeAnnotationSupport) {
+        if (warnings.length > 0) {
+            connection.window.showWarningMessage(warnings.join('; '));
+        }
+        const changes: { [uri: string]: TextEdit[] } = {};
+        for (const { uri, analysis: fileAnalysis, spans } of files) {
+            changes[uri] = spans.map(span => TextEdit.replace(rangeIn(uri, fileAnalysis, span), newName));
+        }
+        return { changes };
+    }
+
+    // Edits outside the current file, or any edit with a conflict, are confirmed in the refactor preview
+    const label = `Rename '${oldName}' to '${newName}'`;
+    const changeAnnotations: { [id: string]: ChangeAnnotation } = {
+        current: ChangeAnnotation.create(label, warnings.length > 0, warnings.join('\n') || undefined),
+        other: ChangeAnnotation.create(label, true, warnings.join('\n') || 'Updates references in other workspace files')
+    };
+    const documentChanges = files.map(({ uri, analysis: fileAnalysis, spans }) => TextDocumentEdit.create(
+        { uri, version: documents.get(uri)?.version ?? null },
+        spans.map(span => AnnotatedTextEdit.replace(rangeIn(uri, fileAnalysis, span), newName, uri === document.uri ? 'current' : 'other'))
+    ));
+    return { documentChanges, changeAnnotations };
+});
+
+connection.onDocumentFormatting(async params => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) {
+        return [];
+    }
+    return formattingProvider.provideDocumentFormattingEdits(analyze(document).lines, await getConfig());
+});
+
+connection.onDocumentRangeFormatting(async params => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) {
+        return [];
+    }
+    return rangeFormattingProvider.provideDocumentRangeFormattingEdits(analyze(document).lines, params.range, await getConfig());
+});
+
+connection.onDocumentOnTypeFormatting(async params => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) {
+        return [];
+    }
+    return onTypeFormattingProvider.provideOnTypeFormattingEdits(analyze(document).lines, params.position, params.ch, await getConfig());
+});
+
+connection.languages.semanticTokens.on(params => {
+    const builder = new SemanticTokensBuilder();
+    const document = documents.get(params.textDocument.uri);
+    if (!document) {
+        return builder.build();
+    }
+    const analysis = analyze(document);
+
+    // Collect C function names
+    const cFunctions = new Set(analysis.cSymbols.filter(s => s.type === 'function').map(s => s.name));
+
+    // Tokens must be pushed in document order
+    const tokens: { span: Span, type: string, modifiers: string[] }[] = [];
+    walk(analysis.result.program, node => {
+        // Highlight declarations
+        if (node.kind === 'FunctionDeclaration') {
+            tokens.push({ span: node.name.span, type: 'function', modifiers: docDeprecation(node.documentation) ? ['declaration', 'deprecated'] : ['declaration'] });
+        } else if (node.kind === 'StructDeclaration') {
+            tokens.push({ span: node.name.span, type: 'struct', modifiers: ['declaration'] });
+        } else if (node.kind === 'VariableDeclaration') {
+            tokens.push({ span: node.name.span, type: 'variable', modifiers: node.isConst ? ['declaration', 'readonly'] : ['declaration'] });
+        } else if (node.kind === 'CallExpression' && node.callee.kind === 'Identifier' && cFunctions.has(node.callee.name)) {
+            // Highlight C function calls with defaultLibrary modifier
+            tokens.push({ span: node.callee.span, type: 'method', modifiers: ['defaultLibrary'] });
+        } else if (node.kind === 'CallExpression') {
+            // Calls to builtins the file does not shadow, including method syntax `x.f()`
+            const callee = node.callee.kind === 'MemberExpression' ? node.callee.property : node.callee;
+            const func = callee.kind === 'Identifier' && !analysis.scopes.bindingOf(callee) ? builtinFunction(callee.name) : undefined;
+            if (func && callee.kind === 'Identifier') {
+                tokens.push({ span: callee.span, type: 'function', modifiers: func.deprecated ? ['defaultLibrary', 'deprecated'] : ['defaultLibrary'] });
+            } else if (callee.kind === 'Identifier' && calleeDeprecation(callee, analysis, name => workspaceDiagnostics.symbol(name, document.uri))) {
+                // Calls to user functions documented as @deprecated
+                tokens.push({ span: callee.span, type: 'function', modifiers: ['deprecated'] });
+            }
+        }
+    });
+
+    // Uses of constants
+    for (const binding of analysis.scopes.bindings) {
+        if (binding.node.kind === 'VariableDeclaration' && binding.node.isConst) {
+            binding.references.forEach(reference => tokens.push({ span: reference.span, type: 'variable', modifiers: ['readonly'] }));
+        }
+    }
+
+    tokens.sort((a, b) => a.span.start - b.span.start);
+    for (const token of tokens) {
+        const start = document.positionAt(token.span.start);
+        const modifierBits = token.modifiers.reduce((bits, modifier) => bits | (1 << tokenModifiers.indexOf(modifier)), 0);
+        builder.push(start.line, start.character, token.span.end - token.span.start, tokenTypes.indexOf(token.type), modifierBits);
+    }
+
+    return builder.build();
+});
+
+// Top-level function declaration with the given name
+function findFunction(result: ParseResult, name: string): FunctionDeclaration | undefined {
+    return result.program.body.find(s => s.kind === 'FunctionDeclaration' && s.name.name === name) as FunctionDeclaration | undefined;
+}
+
+function callHierarchyItem(document: TextDocument, func: FunctionDeclaration): CallHierarchyItem {
+    return {
+        name: func.name.name,
+        kind: SymbolKind.Function,
+        detail: func.documentation || '',
+        uri: document.uri,
+        range: spanToRange(document, func.span),
+        selectionRange: spanToRange(document, func.name.span)
+    };
+}
+
+// Call sites inside a function body, grouped by callee name (method call syntax included)
+function collectCalls(func: FunctionDeclaration): Map<string, Span[]> {
+    const calls = new Map<string, Span[]>();
+    if (!func.body) {
+        return calls;
+    }
+    walk(func.body, node => {
+        if (node.kind !== 'CallExpression') {
+            return;
+        }
+        const callee = node.callee.kind === 'Identifier' ? node.callee
+            : node.callee.kind === 'MemberExpression' ? node.callee.property
+            : null;
+        if (callee) {
+            const spans = calls.get(callee.name) || [];
+            spans.push(callee.span);
+            calls.set(callee.name, spans);
+        }
+    });
+    return calls;
+}
+
+connection.languages.callHierarchy.onPrepare(params => {
+    const document = documents.get(params.textDocument.uri);
+    const word = document && wordAt(document, params.position);
+    if (!document || !word) {
+        return null;
+    }
+
+    const func = findFunction(parseDocument(document), word.text);
+    return func ? [callHierarchyItem(document, func)] : null;
+});
+
+connection.languages.callHierarchy.onOutgoingCalls(params => {
+    const { item } = params;
+    const document = getDocument(item.uri);
+    if (!document) {
+        return [];
+    }
+    const result = parseDocument(document);
+    const func = findFunction(result, item.name);
+    if (!func) {
+        return [];
+    }
+
+    const calls: CallHierarchyOutgoingCall[] = [];
+    collectCalls(func).forEach((spans, name) => {
+        const target = findFunction(result, name);
+        if (!target || name === item.name) {
+            return;
+        }
+        calls.push({
+            to: callHierarchyItem(document, target),
+            fromRanges: spans.map(span => spanToRange(document, span))
+        });
+    });
+    return calls;
+});
+
+connection.languages.callHierarchy.onIncomingCalls(params => {
+    const { item } = params;
+    const document = getDocument(item.uri);
+    if (!document) {
+        return [];
+    }
+    const result = parseDocument(document);
+    const calls: CallHierarchyIncomingCall[] = [];
+
+    for (const statement of result.program.body) {
+        if (statement.kind !== 'FunctionDeclaration' || statement.name.name === item.name) {
+            continue;
+        }
+        const spans = collectCalls(statement).get(item.name);
+        if (spans) {
+            calls.push({
+                from: callHierarchyItem(document, statement),
+                fromRanges: spans.map(span => spanToRange(document, span))
+            });
+        }
+    }
+    return calls;
+});
+
+connection.onFoldingRanges(params => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) {
+        return [];
+    }
+    const ranges: FoldingRange[] = [];
+    const result = parseDocument(document);
+
+    const fold = (span: Span, kind?: FoldingRangeKind) => {
+        const start = document.positionAt(span.start).line;
+        const end = document.positionAt(span.end).line;
+        if (end > start) {
+            ranges.push(FoldingRange.create(start, end, undefined, undefined, kind));
+        }
+    };
+
+    walk(result.program, node => {
+        switch (node.kind) {
+            case 'Block':
+            case 'StructDeclaration':
+            case 'SwitchStatement':
+            case 'ListLiteral':
+            case 'DictLiteral':
+            case 'SetLiteral':
+            case 'BytecodeBlock':
+                fold(node.span);
+                break;
+            case 'SwitchCase':
+                // Arms with braces fold through their block
+                if (node.body.length !== 1 || node.body[0].kind !== 'Block') {
+                    fold(node.span);
+                }
+                break;
+            default:
+                break;
+        }
+    });
+
+    // Support region comments
+    const regionStack: number[] = [];
+    for (const comment of result.comments) {
+        if (comment.text.match(/\/\/\s*region/)) {
+            regionStack.push(comment.start);
+        } else if (comment.text.match(/\/\/\s*endregion/) && regionStack.length > 0) {
+            const start = regionStack.pop()!;
+            fold({ start, end: comment.start }, FoldingRangeKind.Region);
+        }
+    }
+
+    return ranges;
+});
+
+documents.listen(connection);
+connection.listen();
@@ -0,0 +1,79 @@
+// Suppression comments:
+//   // fr-ignore[code, ...]            diagnostics on the same line
+//   // fr-ignore-next-line[code, ...]  diagnostics on the following line
+//   // fr-ignore-file[code, ...]       diagnostics anywhere in the file
+// Without a code list every diagnostic is suppressed.
+
+import { Diagnostic, DiagnosticSeverity, Range } from 'vscode-languageserver';
+import { Comment, lineAt } from './lexer';
+import { isDiagnosticCode } from './diagnosticCodes';
+
+// Codes a comment suppresses; null suppresses all of them
+type CodeSet = Set<string> | null;
+
+export interface Suppressions {
+    lines: Map<number, CodeSet>;
+    file: CodeSet | undefined;
+    // Suppression comments naming unknown codes
+    problems: Diagnostic[];
+}
+
+const suppressionPattern = /^\/\/\s*fr-ignore(-next-line|-file)?(?:\[([^\]]*)\])?(?=\s|$)/;
+
+function merge(existing: CodeSet | undefined, codes: CodeSet): CodeSet {
+    if (existing === undefined) {
+        return codes;
+    }
+    if (existing === null || codes === null) {
+        return null;
+    }
+    return new Set([...existing, ...codes]);
+}
+
+export function collectSuppressions(comments: Comment[], lineStarts: number[]): Suppressions {
+    const suppressions: Suppressions = { lines: new Map(), file: undefined, problems: [] };
+
+    for (const comment of comments) {
+        const match = comment.text.match(suppressionPattern);
+        if (!match) {
+            continue;
+        }
+        const [, scope, list] = match;
+        const line = lineAt(lineStarts, comment.start);
+        const codes = list === undefined ? null : new Set(list.split(',').map(code => code.trim()).filter(code => code));
+
+        for (const code of codes ?? []) {
+            if (!isDiagnosticCode(code)) {
+                const start = comment.start + comment.text.indexOf(code, match[0].indexOf('['));
+                const character = start - lineStarts[line];
+                const diagnostic = Diagnostic.create(
+                    Range.create(line, character, line, character + code.length),
+                    `Unknown diagnostic code '${code}'`,
+                    DiagnosticSeverity.Warning
+                );
+                diagnostic.code = 'unknown-suppression';
+                suppressions.problems.push(diagnostic);
+            }
+        }
+
+        if (scope === '-file') {
+            suppressions.file = merge(suppressions.file, codes);
+        } else {
+            const target = scope === '-next-line' ? line + 1 : line;
+            suppressions.lines.set(target, merge(suppressions.lines.get(target), codes));
+        }
+    }
+    return suppressions;
+}
+
+function suppresses(codes: CodeSet | undefined, code: string | number | undefined): boolean {
+    return codes === null || (codes !== undefined && code !== undefined && codes.has(String(code)));
+}
+
+/** Drop the diagnostics a suppression comment covers, and add warnings for unknown codes in those comments. */
+export function applySuppressions(diagnostics: Diagnostic[], suppressions: Suppressions): Diagnostic[] {
+    const kept = diagnostics.filter(diagnostic =>
+        !suppresses(suppressions.file, diagnostic.code) &&
+        !suppresses(suppressions.lines.get(diagnostic.range.start.line), diagnostic.code));
+    return [...kept, ...suppressions.problems];
+}
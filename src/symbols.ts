@@ -0,0 +1,193 @@
+// Symbol extraction and expression type inference over the Frscript AST.
+// Nothing here depends on the editor API so it can be shared by every consumer of the parser.
+
+import { FunctionDeclaration, Identifier, Node, Span, TypeRef, walk } from './ast';
+import { lineAt } from './lexer';
+import { ParseResult } from './parser';
+
+export interface StructField {
+    name: string;
+    type: string;
+}
+
+export interface FunctionParameter {
+    name: string;
+    type: string;
+    optional?: boolean;  // Has a default value
+}
+
+export interface SymbolInfo {
+    name: string;
+    type: 'function' | 'struct' | 'variable';
+    line: number;
+    character: number;
+    span: Span;  // Whole declaration
+    nameSpan: Span;
+    documentation?: string;
+    fields?: StructField[];  // For structs
+    returnType?: string;  // For functions
+    parameters?: FunctionParameter[];  // For functions
+    varType?: string;  // For variables
+    isConst?: boolean;  // For variables
+}
+
+export interface CImportInfo {
+    path: string;
+    line: number;
+}
+
+export interface CLinkInfo {
+    libs: string;
+    line: number;
+}
+
+export const keywords = ['if', 'elif', 'else', 'while', 'for', 'in', 'switch', 'case', 'default', 'break', 'continue', 'return', 'assert', 'const', 'struct', 'py_import', 'from', 'as', 'try', 'except', 'raise', 'goto', 'global', 'c_import', 'c_link'];
+export const types = ['void', 'int', 'float', 'str', 'string', 'bool', 'list', 'dict', 'set', 'bytes', 'any', 'pyobject', 'pyobj', 'function'];
+
+// Source form of a type, with container element types: `dict[str, list[int]]`
+export function typeRefText(type: TypeRef): string {
+    return type.args ? `${type.name}[${type.args.map(typeRefText).join(', ')}]` : type.name;
+}
+
+// Display type of a parameter; varargs get a `*` suffix and kwargs `**`
+export function parameterType(param: FunctionDeclaration['params'][number]): string {
+    const base = param.type ? typeRefText(param.type) : 'any';  // Untyped parameters are treated as 'any'
+    if (param.variadic === 'kwargs') {
+        return base + '**';
+    }
+    if (param.variadic === 'args') {
+        return base + '*';
+    }
+    return base;
+}
+
+export function functionParameters(func: FunctionDeclaration): FunctionParameter[] {
+    return func.params.map(param => ({ name: param.name.name, type: parameterType(param), optional: !!param.defaultValue }));
+}
+
+// Collect functions, structs and variables (at any depth) with their docstrings
+export function collectSymbols(result: ParseResult): SymbolInfo[] {
+    const symbols: SymbolInfo[] = [];
+    const { lineStarts } = result;
+
+    const position = (span: Span) => {
+        const line = lineAt(lineStarts, span.start);
+        return { line, character: span.start - lineStarts[line] };
+    };
+
+    walk(result.program, node => {
+        switch (node.kind) {
+            case 'FunctionDeclaration':
+                symbols.push({
+                    name: node.name.name,
+                    type: 'function',
+                    ...position(node.name.span),
+                    span: node.span,
+                    nameSpan: node.name.span,
+                    documentation: node.documentation,
+                    returnType: node.returnType ? typeRefText(node.returnType) : undefined,
+                    parameters: functionParameters(node)
+                });
+                break;
+            case 'StructDeclaration':
+                symbols.push({
+                    name: node.name.name,
+                    type: 'struct',
+                    ...position(node.name.span),
+                    span: node.span,
+                    nameSpan: node.name.span,
+                    documentation: node.documentation,
+                    fields: node.fields.map(field => ({ name: field.name.name, type: typeRefText(field.type) }))
+                });
+                return false;
+            case 'VariableDeclaration':
+                symbols.push({
+                    name: node.name.name,
+                    type: 'variable',
+                    ...position(node.name.span),
+                    span: node.span,
+                    nameSpan: node.name.span,
+                    documentation: node.documentation,
+                    varType: node.elementType ? `list[${typeRefText(node.elementType)}]` : typeRefText(node.type),
+                    isConst: node.isConst
+                });
+                break;
+            default:
+                break;
+        }
+        return undefined;
+    });
+
+    return symbols;
+}
+
+export function collectCImports(result: ParseResult): { imports: CImportInfo[], links: CLinkInfo[] } {
+    const imports: CImportInfo[] = [];
+    const links: CLinkInfo[] = [];
+
+    for (const statement of result.program.body) {
+        const line = lineAt(result.lineStarts, statement.span.start);
+        if (statement.kind === 'CImport') {
+            imports.push({ path: statement.path, line });
+        } else if (statement.kind === 'CLink') {
+            links.push({ libs: statement.libs, line });
+        }
+    }
+
+    return { imports, links };
+}
+
+// Whether an identifier names a variable, function or struct (as opposed to a label,
+// keyword argument or member property)
+export function isSymbolName(node: Identifier, parent: Node | null): boolean {
+    if (!parent) {
+        return false;
+    }
+    // Labels and keyword argument names live in their own namespaces
+    if (parent.kind === 'KeywordArgument' && parent.name === node) {
+        return false;
+    }
+    if (parent.kind === 'LabelStatement' || parent.kind === 'GotoStatement') {
+        return false;
+    }
+    return !(parent.kind === 'MemberExpression' && parent.property === node);
+}
+
+// Identifier occurrences of a name: declarations, references and method-call syntax `x.name()`
+export function findOccurrences(root: Node, name: string, includeMethodCalls: boolean = true): Identifier[] {
+    const occurrences: Identifier[] = [];
+
+    walk(root, (node, parent) => {
+        if (includeMethodCalls && node.kind === 'CallExpression' && node.callee.kind === 'MemberExpression' && node.callee.property.name === name) {
+            occurrences.push(node.callee.property);
+        }
+        if (node.kind === 'Identifier' && node.name === name && isSymbolName(node, parent)) {
+            occurrences.push(node);
+        }
+    });
+
+    return occurrences.sort((a, b) => a.span.start - b.span.start);
+}
+
+// Whether an identifier is the name being declared rather than a use of it
+export function isDeclarationName(node: Identifier, parent: Node | null): boolean {
+    if (!parent) {
+        return false;
+    }
+    switch (parent.kind) {
+        case 'FunctionDeclaration':
+        case 'StructDeclaration':
+        case 'VariableDeclaration':
+        case 'Parameter':
+        case 'StructField':
+            return parent.name === node;
+        case 'ForStatement':
+            return parent.variables.includes(node);
+        case 'ExceptClause':
+            return parent.alias === node;
+        case 'PyImport':
+            return parent.alias === node || (parent.member === node && !parent.alias);
+        default:
+            return false;
+    }
+}
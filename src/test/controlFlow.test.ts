@@ -0,0 +1,33 @@
+import * as assert from 'assert';
+import { test } from 'node:test';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { DocumentAnalysis } from '../analysisCache';
+import { controlFlowDiagnostics } from '../controlFlow';
+
+// Code and line of each control-flow diagnostic
+function flowDiagnostics(text: string): string[] {
+    const analysis = new DocumentAnalysis('file:///test.fr', 1, text);
+    assert.deepStrictEqual(analysis.result.errors.map(error => error.message), []);
+    const document = TextDocument.create(analysis.uri, 'frscript', 1, text);
+    return controlFlowDiagnostics(document, analysis).map(diagnostic => `${diagnostic.code}:${diagnostic.range.start.line}`);
+}
+
+test('a function that can finish without returning', () => {
+    assert.deepStrictEqual(flowDiagnostics('int f(int a) {\n    if a > 0 {\n        return 1\n    }\n}\nprintln(f(1))\n'), ['missing-return:0']);
+    assert.deepStrictEqual(flowDiagnostics('int f(int a) {\n    if a > 0 {\n        return 1\n    } else {\n        return 2\n    }\n}\nprintln(f(1))\n'), []);
+});
+
+test('statements after return and break are unreachable', () => {
+    assert.deepStrictEqual(flowDiagnostics('int f() {\n    return 1\n    println(2)\n}\nprintln(f())\n'), ['unreachable-code:2']);
+    assert.deepStrictEqual(flowDiagnostics('void f() {\n    while true {\n        break\n        println(1)\n    }\n}\nf()\n'), ['unreachable-code:3']);
+});
+
+test('a variable read before any assignment', () => {
+    assert.deepStrictEqual(flowDiagnostics('void f() {\n    int x\n    println(x)\n}\nf()\n'), ['use-before-assign:2']);
+    assert.deepStrictEqual(flowDiagnostics('void f() {\n    int x\n    x = 1\n    println(x)\n}\nf()\n'), []);
+});
+
+test('while true without a way out', () => {
+    assert.deepStrictEqual(flowDiagnostics('void f() {\n    while true {\n        println(1)\n    }\n}\nf()\n'), ['infinite-loop:1']);
+    assert.deepStrictEqual(flowDiagnostics('void f() {\n    while true {\n        return\n    }\n}\nf()\n'), []);
+});
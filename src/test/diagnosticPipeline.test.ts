@@ -0,0 +1,106 @@
+import * as assert from 'assert';
+import { test } from 'node:test';
+import { Diagnostic, Range } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { DiagnosticPipeline, DiagnosticSource } from '../diagnosticPipeline';
+
+const delay = 10;
+
+function wait(ms: number) {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function diagnostic(message: string): Diagnostic {
+    return Diagnostic.create(Range.create(0, 0, 0, 1), message);
+}
+
+// Messages of every published set, oldest first
+function recorder() {
+    const published: string[][] = [];
+    const publish = (_document: TextDocument, diagnostics: Diagnostic[]) => published.push(diagnostics.map(d => d.message));
+    return { published, publish };
+}
+
+test('sources publish together in their configured order', async () => {
+    const { published, publish } = recorder();
+    const sources: DiagnosticSource[] = [
+        { name: 'slow', run: async () => { await wait(5); return [diagnostic('slow')]; } },
+        { name: 'fast', run: () => [diagnostic('fast')] },
+        { name: 'delayed', delayed: true, run: () => [diagnostic('delayed')] }
+    ];
+    const pipeline = new DiagnosticPipeline(sources, publish, undefined, delay);
+
+    pipeline.update(TextDocument.create('file:///a.fr', 'frscript', 1, ''));
+    await wait(delay * 5);
+    assert.deepStrictEqual(published, [['slow', 'fast'], ['slow', 'fast', 'delayed']]);
+});
+
+test('delayed results stay until a newer run replaces them', async () => {
+    const { published, publish } = recorder();
+    let version = 0;
+    const sources: DiagnosticSource[] = [
+        { name: 'syntax', run: document => [diagnostic(`syntax ${document.version}`)] },
+        { name: 'metrics', delayed: true, run: document => document.version === 1 ? [diagnostic('metrics 1')] : [] }
+    ];
+    const pipeline = new DiagnosticPipeline(sources, publish, undefined, delay);
+
+    pipeline.update(TextDocument.create('file:///a.fr', 'frscript', ++version, ''));
+    await wait(delay * 5);
+    pipeline.update(TextDocument.create('file:///a.fr', 'frscript', ++version, ''));
+    await wait(delay * 5);
+    assert.deepStrictEqual(published, [
+        ['syntax 1'],
+        ['syntax 1', 'metrics 1'],
+        ['syntax 2', 'metrics 1'],
+        ['syntax 2']
+    ]);
+});
+
+test('an edit cancels the run of the previous version', async () => {
+    const { published, publish } = recorder();
+    let cancelled = false;
+    const sources: DiagnosticSource[] = [
+        {
+            name: 'slow',
+            run: async (document, token) => {
+                await wait(delay);
+                cancelled = cancelled || token.isCancellationRequested;
+                return [diagnostic(`slow ${document.version}`)];
+            }
+        }
+    ];
+    const pipeline = new DiagnosticPipeline(sources, publish, undefined, delay);
+
+    pipeline.update(TextDocument.create('file:///a.fr', 'frscript', 1, ''));
+    pipeline.update(TextDocument.create('file:///a.fr', 'frscript', 2, ''));
+    await wait(delay * 5);
+    assert.ok(cancelled);
+    assert.deepStrictEqual(published, [['slow 2']]);
+});
+
+test('a failing source is reported and the others still publish', async () => {
+    const { published, publish } = recorder();
+    const failures: string[] = [];
+    const sources: DiagnosticSource[] = [
+        { name: 'broken', run: () => { throw new Error('boom'); } },
+        { name: 'working', run: () => [diagnostic('working')] }
+    ];
+    const pipeline = new DiagnosticPipeline(sources, publish, source => failures.push(source?.name ?? 'publish'), delay);
+
+    pipeline.update(TextDocument.create('file:///a.fr', 'frscript', 1, ''));
+    await wait(delay * 5);
+    assert.deepStrictEqual(failures, ['broken']);
+    assert.deepStrictEqual(published, [['working']]);
+});
+
+test('removed documents stop publishing', async () => {
+    const { published, publish } = recorder();
+    const sources: DiagnosticSource[] = [{ name: 'delayed', delayed: true, run: () => [diagnostic('delayed')] }];
+    const pipeline = new DiagnosticPipeline(sources, publish, undefined, delay);
+
+    pipeline.update(TextDocument.create('file:///a.fr', 'frscript', 1, ''));
+    await wait(0);
+    pipeline.remove('file:///a.fr');
+    await wait(delay * 5);
+    assert.deepStrictEqual(published, [[]]);
+});
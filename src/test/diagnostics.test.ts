@@ -0,0 +1,63 @@
+import * as assert from 'assert';
+import { test } from 'node:test';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { DocumentAnalysis } from '../analysisCache';
+import { computeDiagnostics } from '../diagnostics';
+import { isDiagnosticCode } from '../diagnosticCodes';
+
+function diagnose(text: string, declaredElsewhere?: (name: string) => boolean) {
+    const analysis = new DocumentAnalysis('file:///test.fr', 1, text);
+    const document = TextDocument.create(analysis.uri, 'frscript', 1, text);
+    return computeDiagnostics(document, analysis, undefined, declaredElsewhere);
+}
+
+// Code and line of the diagnostics with the given codes
+function reported(text: string, codes: string[], declaredElsewhere?: (name: string) => boolean): string[] {
+    return diagnose(text, declaredElsewhere)
+        .filter(diagnostic => codes.includes(String(diagnostic.code)))
+        .map(diagnostic => `${diagnostic.code}:${diagnostic.range.start.line}`);
+}
+
+const switchCodes = ['duplicate-case', 'case-type-mismatch', 'missing-default'];
+
+test('duplicate and mistyped case values', () => {
+    const text = 'void f(int x) {\n    switch x {\n        case 1:\n            println(1)\n        case 1:\n            println(2)\n        case "a":\n            println(3)\n        default:\n            println(4)\n    }\n}\nf(1)\n';
+    assert.deepStrictEqual(reported(text, switchCodes), ['duplicate-case:4', 'case-type-mismatch:6']);
+});
+
+test('switch without a default unless both booleans are covered', () => {
+    const missing = 'void f(int x) {\n    switch x {\n        case 1:\n            println(1)\n    }\n}\nf(1)\n';
+    assert.deepStrictEqual(reported(missing, switchCodes), ['missing-default:1']);
+
+    const covered = 'void f(bool b) {\n    switch b {\n        case true:\n            println(1)\n        case false:\n            println(2)\n    }\n}\nf(true)\n';
+    assert.deepStrictEqual(reported(covered, switchCodes), []);
+});
+
+test('undefined and unused labels are local to their function', () => {
+    const text = 'void f() {\n    #label start\n    #label spare\n    goto start\n}\nvoid g() {\n    goto start\n}\nf()\ng()\n';
+    assert.deepStrictEqual(reported(text, ['undefined-label', 'unused-label']), ['undefined-label:6', 'unused-label:2']);
+});
+
+test('assignments to constants', () => {
+    const text = 'const int LIMIT = 5\nLIMIT = 6\nLIMIT += 1\nprintln(LIMIT)\n';
+    assert.deepStrictEqual(reported(text, ['const-assignment']), ['const-assignment:1', 'const-assignment:2']);
+});
+
+test('globals that are never reassigned could be const', () => {
+    const text = 'int fixed = 1\nint counter = 0\ncounter += 1\nprintln(fixed + counter)\n';
+    assert.deepStrictEqual(reported(text, ['prefer-const']), ['prefer-const:0']);
+});
+
+test('undefined names inside f-string interpolations', () => {
+    const text = 'str name = "a"\nprintln(f"{name} {missing} {shared}")\n';
+    assert.deepStrictEqual(reported(text, ['undefined-name'], name => name === 'shared'), ['undefined-name:1']);
+});
+
+test('every diagnostic carries a documented code', () => {
+    const text = 'int f(int a) {\n    int unused = "x";\n    return\n}\nconst int C = 1\nC = 2\nprintln(f(1, 2), missing)\n';
+    const diagnostics = diagnose(text);
+    assert.ok(diagnostics.length > 0);
+    for (const diagnostic of diagnostics) {
+        assert.ok(isDiagnosticCode(String(diagnostic.code)), `'${diagnostic.message}' has code ${diagnostic.code}`);
+    }
+});
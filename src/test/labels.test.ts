@@ -0,0 +1,24 @@
+import * as assert from 'assert';
+import { test } from 'node:test';
+import { parse } from '../parser';
+import { collectLabels, labelAt } from '../labels';
+
+test('gotos resolve to labels of their own function, forwards too', () => {
+    const text = 'void f() {\n    goto done\n    #label done\n}\n#label done\ngoto done\nf()\n';
+    const scopes = collectLabels(parse(text).program);
+
+    const inFunction = labelAt(scopes, text.indexOf('done'));
+    assert.strictEqual(inFunction?.label?.declaration.span.start, text.indexOf('done', text.indexOf('#label')));
+    const atTopLevel = labelAt(scopes, text.lastIndexOf('done'));
+    assert.strictEqual(atTopLevel?.label?.declaration.span.start, text.indexOf('done', text.lastIndexOf('#label')));
+    assert.strictEqual(atTopLevel?.label?.references.length, 1);
+});
+
+test('gotos without a label stay unresolved', () => {
+    const text = 'void f() {\n    goto nowhere\n}\nf()\n';
+    const scopes = collectLabels(parse(text).program);
+
+    const occurrence = labelAt(scopes, text.indexOf('nowhere'));
+    assert.strictEqual(occurrence?.label, undefined);
+    assert.deepStrictEqual(scopes.flatMap(scope => scope.unresolved.map(identifier => identifier.name)), ['nowhere']);
+});
@@ -0,0 +1,96 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, test } from 'node:test';
+import { Diagnostic, DiagnosticSeverity, Range } from 'vscode-languageserver';
+import { RuleSetting, applyLintRules, clearLintConfigCache, lintConfigErrorsFor, lintConfigFileName, lintRulesFor } from '../lintConfig';
+import { globToRegExp } from '../utils';
+
+// Temporary projects, removed after each test
+const projects: string[] = [];
+
+// A temporary project with the given files, relative to its root
+function project(files: Record<string, string>): string {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'frlint-'));
+    projects.push(root);
+    for (const [file, content] of Object.entries(files)) {
+        fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+        fs.writeFileSync(path.join(root, file), content);
+    }
+    return root;
+}
+
+afterEach(() => {
+    clearLintConfigCache();
+    projects.splice(0).forEach(root => fs.rmSync(root, { recursive: true, force: true }));
+});
+
+test('glob patterns', () => {
+    assert.ok(globToRegExp('*.fr').test('main.fr'));
+    assert.ok(!globToRegExp('*.fr').test('src/main.fr'));
+    assert.ok(globToRegExp('src/**/*.fr').test('src/main.fr'));
+    assert.ok(globToRegExp('src/**/*.fr').test('src/a/b/main.fr'));
+    assert.ok(globToRegExp('examples/**').test('examples/a/b.fr'));
+    assert.ok(globToRegExp('test?.fr').test('test1.fr'));
+    assert.ok(!globToRegExp('test?.fr').test('test12.fr'));
+    assert.ok(globToRegExp('*.{fr,frs}').test('a.frs'));
+    assert.ok(!globToRegExp('a.fr').test('abfr'));
+});
+
+test('the closest config file wins and overrides match relative paths', () => {
+    const root = project({
+        [lintConfigFileName]: JSON.stringify({
+            root: true,
+            rules: { 'unused-variable': 'error', 'missing-default': 'off' },
+            overrides: [{ files: 'examples/**', rules: { 'unused-variable': 'off' } }]
+        }),
+        'src/.frlint.json': JSON.stringify({ rules: { 'missing-default': 'warning' } }),
+        'src/main.fr': '',
+        'examples/demo.fr': ''
+    });
+
+    const src = lintRulesFor(path.join(root, 'src/main.fr'));
+    assert.strictEqual(src.get('unused-variable'), 'error');
+    assert.strictEqual(src.get('missing-default'), 'warning');
+
+    const examples = lintRulesFor(path.join(root, 'examples/demo.fr'));
+    assert.strictEqual(examples.get('unused-variable'), 'off');
+    assert.strictEqual(examples.get('missing-default'), 'off');
+});
+
+test('root stops the search for config files further up', () => {
+    const root = project({
+        [lintConfigFileName]: JSON.stringify({ rules: { 'unused-variable': 'error' } }),
+        'app/.frlint.json': JSON.stringify({ root: true, rules: { 'missing-default': 'off' } }),
+        'app/main.fr': ''
+    });
+
+    const rules = lintRulesFor(path.join(root, 'app/main.fr'));
+    assert.deepStrictEqual([...rules.keys()], ['missing-default']);
+});
+
+test('malformed config files are reported and skipped', () => {
+    const root = project({
+        [lintConfigFileName]: '{ "rules": ',
+        'main.fr': ''
+    });
+
+    const file = path.join(root, 'main.fr');
+    assert.deepStrictEqual(lintConfigErrorsFor(file).map(error => error.file), [path.join(root, lintConfigFileName)]);
+    assert.strictEqual(lintRulesFor(file).size, 0);
+});
+
+test('rules turn diagnostics off or change their severity', () => {
+    const diagnostic = (code: string) => {
+        const created = Diagnostic.create(Range.create(0, 0, 0, 1), code, DiagnosticSeverity.Warning);
+        created.code = code;
+        return created;
+    };
+    const rules = new Map<string, RuleSetting>([['unused-variable', 'off'], ['missing-default', 'error']]);
+    const result = applyLintRules([diagnostic('unused-variable'), diagnostic('missing-default'), diagnostic('prefer-const')], rules);
+    assert.deepStrictEqual(result.map(d => [d.code, d.severity]), [
+        ['missing-default', DiagnosticSeverity.Error],
+        ['prefer-const', DiagnosticSeverity.Warning]
+    ]);
+});
@@ -0,0 +1,67 @@
+import * as assert from 'assert';
+import { test } from 'node:test';
+import { walk } from '../ast';
+import { parse } from '../parser';
+
+// Source that must parse without errors
+function parsesCleanly(text: string) {
+    const result = parse(text);
+    assert.deepStrictEqual(result.errors.map(error => error.message), []);
+    return result;
+}
+
+test('closing parenthesis of a call on its own line', () => {
+    parsesCleanly('println(\n    1\n)\n');
+    parsesCleanly('println(\n    1,\n    2,\n)\n');
+});
+
+test('closing brackets of literals on their own line', () => {
+    parsesCleanly('list items = [\n    1,\n    2\n]\n');
+    parsesCleanly('dict d = {\n  "a": 1,\n  "b": 2\n}\n');
+    parsesCleanly('int n = (\n    1 + 2\n)\n');
+    parsesCleanly('list items = [1, 2]\nint first = items[\n    0\n]\n');
+});
+
+test('multi-line function signature', () => {
+    const result = parsesCleanly('int add(\n    int a,\n    int b\n) {\n    int sum = a + b\n    return sum\n}\n');
+    const [declaration] = result.program.body;
+    assert.strictEqual(declaration.kind, 'FunctionDeclaration');
+    if (declaration.kind === 'FunctionDeclaration') {
+        assert.deepStrictEqual(declaration.params.map(param => param.name.name), ['a', 'b']);
+        assert.strictEqual(declaration.body?.body.length, 2);
+    }
+});
+
+test('statements after a group still end at the line break', () => {
+    const result = parsesCleanly('println(\n    1\n)\nprintln(2)\n');
+    assert.strictEqual(result.program.body.length, 2);
+});
+
+test('unclosed call reports the missing parenthesis', () => {
+    const result = parse('println(1\nprintln(2)\n');
+    assert.ok(result.errors.length > 0);
+});
+
+// Source text of each interpolation of the f-strings in a file
+function interpolations(text: string): (string | null)[] {
+    const found: (string | null)[] = [];
+    walk(parsesCleanly(text).program, node => {
+        if (node.kind === 'FString') {
+            found.push(...node.interpolations.map(part => part.expression && text.substring(part.expression.span.start, part.expression.span.end)));
+        }
+    });
+    return found;
+}
+
+test('f-string interpolations are parsed at their offsets', () => {
+    assert.deepStrictEqual(interpolations('int a = 1\nprintln(f"a is {a + 1}, {len("x")}")\n'), ['a + 1', 'len("x")']);
+});
+
+test('quotes of either kind inside f-string interpolations', () => {
+    assert.deepStrictEqual(interpolations('str name = "a"\nprintln(f"{name + "b"} {name + \'c\'}")\n'), ['name + "b"', "name + 'c'"]);
+    assert.deepStrictEqual(interpolations('println(f"{"}"}")\n'), ['"}"']);
+});
+
+test('doubled braces in f-strings are literal', () => {
+    assert.deepStrictEqual(interpolations('int x = 1\nprintln(f"{{x}} {x}")\n'), ['x']);
+});
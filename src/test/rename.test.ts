@@ -0,0 +1,40 @@
+import * as assert from 'assert';
+import { test } from 'node:test';
+import { DocumentAnalysis } from '../analysisCache';
+import { referencesAt } from '../scopes';
+import { bindingConflicts, invalidNameReason, isBuiltinName } from '../rename';
+
+// Conflicts of renaming the name at a snippet to a new name
+function conflicts(text: string, snippet: string, newName: string) {
+    const analysis = new DocumentAnalysis('file:///test.fr', 1, text);
+    const references = referencesAt(analysis.scopes, text.indexOf(snippet));
+    assert.ok(references, `no name at '${snippet}'`);
+    return bindingConflicts(analysis, references.binding, references.occurrences, newName);
+}
+
+test('new names must be identifiers and not keywords', () => {
+    assert.strictEqual(invalidNameReason('total'), undefined);
+    assert.strictEqual(invalidNameReason('2fast'), "'2fast' is not a valid identifier");
+    assert.strictEqual(invalidNameReason('while'), "'while' is a keyword");
+    assert.strictEqual(invalidNameReason('int'), "'int' is a keyword");
+    assert.ok(isBuiltinName('println'));
+    assert.ok(!isBuiltinName('total'));
+});
+
+test('a name already declared in the same scope is an error', () => {
+    const text = 'int a = 1\nint b = 2\nprintln(a + b)\n';
+    const result = conflicts(text, 'a = 1', 'b');
+    assert.deepStrictEqual(result.errors, ["'b' is already declared in this scope on line 2"]);
+});
+
+test('capturing an outer name is a warning', () => {
+    const text = 'int total = 1\nvoid f() {\n    int x = 2\n    println(x + total)\n}\nf()\n';
+    const result = conflicts(text, 'x = 2', 'total');
+    assert.deepStrictEqual(result.errors, []);
+    assert.ok(result.warnings.some(warning => warning.includes("'total'")), result.warnings.join('\n'));
+});
+
+test('a rename without collisions has no conflicts', () => {
+    const text = 'int a = 1\nvoid f() {\n    int x = 2\n    println(x + a)\n}\nf()\n';
+    assert.deepStrictEqual(conflicts(text, 'x = 2', 'y'), { errors: [], warnings: [] });
+});
@@ -0,0 +1,76 @@
+import * as assert from 'assert';
+import { test } from 'node:test';
+import { parse } from '../parser';
+import { ScopeTree, referencesAt } from '../scopes';
+
+function scopesOf(text: string) {
+    const result = parse(text);
+    assert.deepStrictEqual(result.errors.map(error => error.message), []);
+    return new ScopeTree(result.program);
+}
+
+// Offset of the nth occurrence of a snippet
+function offsetOf(text: string, snippet: string, occurrence: number = 1): number {
+    let offset = -1;
+    for (let i = 0; i < occurrence; i++) {
+        offset = text.indexOf(snippet, offset + 1);
+    }
+    assert.ok(offset >= 0, `'${snippet}' not found`);
+    return offset;
+}
+
+test('a variable in an inner block shadows the outer one', () => {
+    const text = 'int x = 1\nvoid f() {\n    if true {\n        int x = 2\n        println(x)\n    }\n    println(x)\n}\nf()\n';
+    const scopes = scopesOf(text);
+
+    const inner = scopes.bindingAt(offsetOf(text, 'x)', 1));
+    const outer = scopes.bindingAt(offsetOf(text, 'x)', 2));
+    assert.strictEqual(inner?.declaration.span.start, offsetOf(text, 'x = 2'));
+    assert.strictEqual(outer?.declaration.span.start, offsetOf(text, 'x = 1'));
+    assert.strictEqual(inner?.scope.kind, 'block');
+    assert.strictEqual(outer?.scope.kind, 'file');
+});
+
+test('parameters are visible in the function body only', () => {
+    const text = 'int twice(int n) {\n    return n * 2\n}\nprintln(n)\n';
+    const scopes = scopesOf(text);
+
+    const parameter = scopes.bindingAt(offsetOf(text, 'n * 2'));
+    assert.strictEqual(parameter?.kind, 'parameter');
+    assert.strictEqual(parameter?.scope.kind, 'function');
+    assert.strictEqual(scopes.bindingAt(offsetOf(text, 'n)', 2)), undefined);
+    assert.strictEqual(scopes.unresolvedUses('n').length, 1);
+});
+
+test('a use before the declaration resolves to the outer binding', () => {
+    const text = 'int x = 1\nvoid f() {\n    println(x)\n    int x = 2\n    println(x)\n}\nf()\n';
+    const scopes = scopesOf(text);
+
+    assert.strictEqual(scopes.bindingAt(offsetOf(text, 'x)', 1))?.scope.kind, 'file');
+    assert.strictEqual(scopes.bindingAt(offsetOf(text, 'x)', 2))?.scope.kind, 'function');
+});
+
+test('functions are visible before their declaration', () => {
+    const text = 'println(later())\nint later() {\n    return 1\n}\n';
+    const scopes = scopesOf(text);
+
+    assert.strictEqual(scopes.bindingAt(offsetOf(text, 'later()'))?.kind, 'function');
+});
+
+test('loop variables belong to the loop', () => {
+    const text = 'for i in range(3) {\n    println(i)\n}\nprintln(i)\n';
+    const scopes = scopesOf(text);
+
+    const binding = scopes.bindingAt(offsetOf(text, 'i)', 1));
+    assert.strictEqual(binding?.kind, 'loop-variable');
+    assert.strictEqual(binding?.scope.kind, 'loop');
+    assert.strictEqual(scopes.bindingAt(offsetOf(text, 'i)', 2)), undefined);
+});
+
+test('references of a shadowed name stay with their binding', () => {
+    const text = 'int x = 1\nvoid f() {\n    int x = 2\n    println(x)\n}\nprintln(x)\nf()\n';
+    const scopes = scopesOf(text);
+
+    const references = referencesAt(scopes, offsetOf(text, 'x = 1'));
+    assert.deepStrictEqual(references?.occurrences.map(node => node.span.start), [offsetOf(text, 'x = 1'), offsetOf(text, 'x)', 2)]);
+});
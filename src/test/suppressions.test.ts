@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import { test } from 'node:test';
+import { Diagnostic, Range } from 'vscode-languageserver';
+import { parse } from '../parser';
+import { applySuppressions, collectSuppressions } from '../suppressions';
+
+function suppressionsOf(text: string) {
+    const result = parse(text);
+    return collectSuppressions(result.comments, result.lineStarts);
+}
+
+function diagnosticAt(line: number, code: string): Diagnostic {
+    const diagnostic = Diagnostic.create(Range.create(line, 0, line, 1), code);
+    diagnostic.code = code;
+    return diagnostic;
+}
+
+// Codes and lines of the diagnostics left after applying the suppressions
+function kept(text: string, diagnostics: Diagnostic[]): string[] {
+    return applySuppressions(diagnostics, suppressionsOf(text)).map(diagnostic => `${diagnostic.code}:${diagnostic.range.start.line}`);
+}
+
+test('a suppression on the same line drops only the listed codes', () => {
+    const text = 'int x = "a" // fr-ignore[type-mismatch]\n';
+    assert.deepStrictEqual(kept(text, [diagnosticAt(0, 'type-mismatch'), diagnosticAt(0, 'prefer-const')]), ['prefer-const:0']);
+});
+
+test('a suppression without codes drops everything on its line', () => {
+    const text = 'int x = "a" // fr-ignore\nint y = "b"\n';
+    assert.deepStrictEqual(kept(text, [diagnosticAt(0, 'type-mismatch'), diagnosticAt(1, 'type-mismatch')]), ['type-mismatch:1']);
+});
+
+test('next-line suppressions apply to the following line', () => {
+    const text = '// fr-ignore-next-line[type-mismatch]\nint x = "a"\nint y = "b"\n';
+    assert.deepStrictEqual(kept(text, [diagnosticAt(1, 'type-mismatch'), diagnosticAt(2, 'type-mismatch')]), ['type-mismatch:2']);
+});
+
+test('file suppressions apply anywhere and merge their codes', () => {
+    const text = '// fr-ignore-file[unused-variable]\nint x = 1\n// fr-ignore-file[prefer-const]\n';
+    const diagnostics = [diagnosticAt(1, 'unused-variable'), diagnosticAt(1, 'prefer-const'), diagnosticAt(1, 'type-mismatch')];
+    assert.deepStrictEqual(kept(text, diagnostics), ['type-mismatch:1']);
+});
+
+test('unknown codes in a suppression are reported', () => {
+    const text = 'int x = 1 // fr-ignore[type-mismatch, bogus-code]\n';
+    const [problem] = suppressionsOf(text).problems;
+    assert.strictEqual(problem.code, 'unknown-suppression');
+    assert.strictEqual(problem.range.start.character, text.indexOf('bogus-code'));
+    assert.strictEqual(problem.range.end.character, text.indexOf('bogus-code') + 'bogus-code'.length);
+    assert.deepStrictEqual(kept(text, []), ['unknown-suppression:0']);
+});
+
+test('comments that only start like a suppression are ignored', () => {
+    assert.deepStrictEqual(kept('int x = "a" // fr-ignored\n', [diagnosticAt(0, 'type-mismatch')]), ['type-mismatch:0']);
+});
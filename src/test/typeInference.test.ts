@@ -0,0 +1,87 @@
+import * as assert from 'assert';
+import { test } from 'node:test';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { DocumentAnalysis } from '../analysisCache';
+import { walk } from '../ast';
+import { typeDiagnostics } from '../diagnostics';
+import { isAssignable, normalizeType, typeArguments } from '../typeInference';
+
+function analyze(text: string) {
+    const analysis = new DocumentAnalysis('file:///test.fr', 1, text);
+    assert.deepStrictEqual(analysis.result.errors.map(error => error.message), []);
+    return analysis;
+}
+
+// Inferred type of every initialized variable, by name
+function initializerTypes(text: string): Record<string, string | null> {
+    const analysis = analyze(text);
+    const types: Record<string, string | null> = {};
+    walk(analysis.result.program, node => {
+        if (node.kind === 'VariableDeclaration' && node.init) {
+            types[node.name.name] = analysis.typeInference.typeOf(node.init);
+        }
+    });
+    return types;
+}
+
+function typeMessages(text: string): string[] {
+    const analysis = analyze(text);
+    const document = TextDocument.create(analysis.uri, 'frscript', 1, text);
+    return typeDiagnostics(document, analysis).filter(diagnostic => diagnostic.code === 'type-mismatch').map(diagnostic => diagnostic.message);
+}
+
+test('operators, comparisons, ternaries and f-strings', () => {
+    const types = initializerTypes('int a = 1\nany sum = a + 2.5\nany less = a < 3\nany text = f"{a}"\nany choice = a > 0 ? "yes" : "no"\n');
+    assert.strictEqual(types.sum, 'float');
+    assert.strictEqual(types.less, 'bool');
+    assert.strictEqual(types.text, 'str');
+    assert.strictEqual(types.choice, 'str');
+});
+
+test('builtin calls and method-call syntax', () => {
+    const types = initializerTypes('any n = len("abc")\nany upper = "abc".upper()\n');
+    assert.strictEqual(types.n, 'int');
+    assert.strictEqual(types.upper, 'str');
+});
+
+test('assignments narrow an any variable', () => {
+    const text = 'any x = 1\nx = "text"\nprintln(x)\n';
+    const analysis = analyze(text);
+    assert.strictEqual(analysis.typeInference.nameType('x', text.indexOf('x = "')), 'int');
+    assert.strictEqual(analysis.typeInference.nameType('x', text.indexOf('x)')), 'str');
+});
+
+test('element types of list and dict literals, indexing and slicing', () => {
+    const types = initializerTypes('list[int] nums = [1, 2]\nany first = nums[0]\nany rest = nums[1:]\ndict[str, int] ages = {"a": 1}\nany age = ages["a"]\nany pairs = {"a": [1]}\n');
+    assert.strictEqual(types.nums, 'list[int]');
+    assert.strictEqual(types.first, 'int');
+    assert.strictEqual(types.rest, 'list[int]');
+    assert.strictEqual(types.ages, 'dict[str, int]');
+    assert.strictEqual(types.age, 'int');
+    assert.strictEqual(types.pairs, 'dict[str, list[int]]');
+});
+
+test('loop variables take the element type of the iterable', () => {
+    const text = 'list[str] names = ["a"]\nfor name in names {\n    println(name)\n}\n';
+    const analysis = analyze(text);
+    assert.strictEqual(analysis.typeInference.nameType('name', text.indexOf('name)')), 'str');
+});
+
+test('container element types are checked on assignment and calls', () => {
+    assert.deepStrictEqual(typeMessages('list[int] nums = ["a"]\nprintln(nums)\n'), [
+        "Type mismatch: cannot assign 'list[str]' to variable of type 'list[int]'"
+    ]);
+    assert.deepStrictEqual(typeMessages('void take(list[int] xs) {\n    println(xs)\n}\ntake(["a"])\ntake([1])\n'), [
+        "Type mismatch: expected 'list[int]', but got 'list[str]'"
+    ]);
+    assert.deepStrictEqual(typeMessages('list nums = ["a"]\nprintln(nums)\n'), []);
+});
+
+test('container type helpers', () => {
+    assert.deepStrictEqual(typeArguments('dict[str, list[int]]'), ['str', 'list[int]']);
+    assert.deepStrictEqual(typeArguments('list'), []);
+    assert.ok(isAssignable('list', 'list[int]'));
+    assert.ok(isAssignable('list[any]', 'list[str]'));
+    assert.ok(!isAssignable('list[int]', 'list[str]'));
+    assert.strictEqual(normalizeType(normalizeType('dict[str, list[int]]')), normalizeType('dict[str, list[int]]'));
+});
@@ -0,0 +1,533 @@
+// Expression types of a Frscript file.
+// Names resolve through the scope tree; variables declared `any` (and untyped parameters) are narrowed
+// to the type of the last assignment that reaches the use, so checks see `any x = 1` as an int afterwards.
+// Types are written as in source, containers with their element types: `list[int]`, `dict[str, list[int]]`.
+
+import {
+    Assignment, CallExpression, Expression, FunctionDeclaration, Identifier, Program, StructDeclaration, VariableDeclaration, walk
+} from './ast';
+import { Binding, Scope, ScopeTree, bindingType } from './scopes';
+import { builtinConstant, builtinFunction, builtinMethod, builtinReturnType } from './builtins';
+import { typeRefText, types } from './symbols';
+
+// Types written differently in source that mean the same thing
+const typeAliases: Record<string, string> = { 'string': 'str', 'pyobj': 'pyobject' };
+
+const numericTypes = ['int', 'float', 'bool'];
+
+// Builtins returning `any` whose result has the type of their numeric arguments
+const numericBuiltins = ['abs', 'min', 'max', 'pow'];
+
+/** Container type without its element types: `list` for `list[int]`. */
+export function baseType(type: string): string {
+    const bracket = type.indexOf('[');
+    return bracket < 0 ? type : type.substring(0, bracket);
+}
+
+/** Element types of a container type: `['str', 'list[int]']` for `dict[str, list[int]]`. */
+export function typeArguments(type: string): string[] {
+    const bracket = type.indexOf('[');
+    if (bracket < 0 || !type.endsWith(']')) {
+        return [];
+    }
+    const args: string[] = [];
+    let depth = 0;
+    let start = bracket + 1;
+    for (let i = start; i < type.length - 1; i++) {
+        if (type[i] === '[') {
+            depth++;
+        } else if (type[i] === ']') {
+            depth--;
+        } else if (type[i] === ',' && depth === 0) {
+            args.push(type.substring(start, i).trim());
+            start = i + 1;
+        }
+    }
+    args.push(type.substring(start, type.length - 1).trim());
+    return args;
+}
+
+export function normalizeType(type: string): string {
+    const args = typeArguments(type);
+    const base = baseType(type);
+    const normalized = typeAliases[base] ?? base;
+    return args.length > 0 ? `${normalized}[${args.map(normalizeType).join(', ')}]` : normalized;
+}
+
+export function sameType(a: string, b: string): boolean {
+    return normalizeType(a) === normalizeType(b);
+}
+
+/**
+ * Whether a value of type `actual` can be stored where `expected` is declared.
+ * A container without element types matches any element types, and `any` matches everything.
+ */
+export function isAssignable(expected: string, actual: string): boolean {
+    expected = normalizeType(expected);
+    actual = normalizeType(actual);
+    if (expected === 'any' || actual === 'any' || expected === actual) {
+        return true;
+    }
+    if (baseType(expected) !== baseType(actual)) {
+        return false;
+    }
+    const expectedArgs = typeArguments(expected);
+    const actualArgs = typeArguments(actual);
+    if (expectedArgs.length === 0 || actualArgs.length !== expectedArgs.length) {
+        return true;
+    }
+    return expectedArgs.every((arg, index) => isAssignable(arg, actualArgs[index]));
+}
+
+// Shared type of the elements of a literal, or null when they differ or are unknown
+function commonType(types: (string | null)[]): string | null {
+    if (types.length === 0 || types.some(type => !type)) {
+        return null;
+    }
+    const first = types[0]!;
+    if (types.every(type => sameType(type!, first))) {
+        return normalizeType(first);
+    }
+    return types.every(type => type === 'int' || type === 'float') ? 'float' : null;
+}
+
+// Type of `value[index]`: an element of a list, a value of a dict, a character of a string
+function indexedType(object: string | null): string | null {
+    switch (object && baseType(object)) {
+        case 'str':
+            return 'str';
+        case 'bytes':
+            return 'int';
+        case 'list':
+            return typeArguments(object!)[0] ?? null;
+        case 'dict':
+            return typeArguments(object!)[1] ?? null;
+        default:
+            return null;
+    }
+}
+
+// Container type with element types when they are known: `list[int]`, otherwise `list`
+function containerType(base: string, args: (string | null)[]): string {
+    return args.length > 0 && args.every(arg => arg) ? `${base}[${args.join(', ')}]` : base;
+}
+
+// A write to a binding: its declaration initializer or an assignment statement
+interface Write {
+    node: VariableDeclaration | Assignment;
+    value: Expression;
+    scope: Scope;
+}
+
+// Result of combining two numeric operands, or null when either is not numeric
+function numericResult(left: string | null, right: string | null): string | null {
+    if (!left || !right || !numericTypes.includes(left) || !numericTypes.includes(right)) {
+        return null;
+    }
+    return left === 'float' || right === 'float' ? 'float' : 'int';
+}
+
+export class TypeInference {
+    private writes = new Map<Binding, Write[]>();
+    private structs = new Map<string, StructDeclaration>();
+    // Structs other files declare, looked up once per name
+    private externalStructs = new Map<string, StructDeclaration | undefined>();
+    private cache = new Map<Expression, string | null>();
+
+    constructor(
+        program: Program,
+        private readonly scopes: ScopeTree,
+        private readonly resolveStruct: (name: string) => StructDeclaration | undefined = () => undefined
+    ) {
+        walk(program, node => {
+            if (node.kind === 'StructDeclaration') {
+                this.structs.set(node.name.name, node);
+            } else if (node.kind === 'VariableDeclaration' && node.init) {
+                this.addWrite(scopes.bindingOf(node.name), { node, value: node.init, scope: scopes.scopeAt(node.span.start) });
+            } else if (node.kind === 'Assignment' && node.target.kind === 'Identifier') {
+                this.addWrite(scopes.bindingOf(node.target), { node, value: node.value, scope: scopes.scopeAt(node.span.start) });
+            }
+        });
+    }
+
+    private addWrite(binding: Binding | undefined, write: Write) {
+        if (!binding) {
+            return;
+        }
+        const writes = this.writes.get(binding) ?? [];
+        writes.push(write);
+        this.writes.set(binding, writes);
+    }
+
+    /** Struct declared in this file, or in another file of the workspace. */
+    public struct(name: string): StructDeclaration | undefined {
+        const local = this.structs.get(name);
+        if (local || types.includes(name) || !/^\w+$/.test(name)) {
+            return local;
+        }
+        if (!this.externalStructs.has(name)) {
+            this.externalStructs.set(name, this.resolveStruct(name));
+        }
+        return this.externalStructs.get(name);
+    }
+
+    /** Declared type of a field of a struct type, or null when the type is not a struct or lacks the field. */
+    public fieldType(structType: string, field: string): string | null {
+        const declaration = this.struct(structType)?.fields.find(f => f.name.name === field);
+        return declaration ? normalizeType(typeRefText(declaration.type)) : null;
+    }
+
+    /** Type of calling a name at an offset: a function's return type, a struct, or a builtin's return type. */
+    public nameCallType(name: string, offset: number): string | null {
+        const binding = this.scopes.lookup(name, offset);
+        if (binding?.kind === 'function') {
+            return this.returnType(binding);
+        }
+        if (binding) {
+            return binding.kind === 'struct' ? binding.name : null;
+        }
+        const returns = builtinReturnType(name);
+        if (returns) {
+            return normalizeType(returns);
+        }
+        return this.struct(name) ? name : null;
+    }
+
+    /**
+     * Type of a member chain like `line.start`, `points[0].x` or `origin().x` ending before an offset.
+     * Completion uses it while the text after the dot does not parse yet.
+     */
+    public chainType(chain: string, offset: number): string | null {
+        const segments: string[] = [];
+        let depth = 0;
+        let start = 0;
+        for (let i = 0; i < chain.length; i++) {
+            if (chain[i] === '(' || chain[i] === '[') {
+                depth++;
+            } else if (chain[i] === ')' || chain[i] === ']') {
+                depth--;
+            } else if (chain[i] === '.' && depth === 0) {
+                segments.push(chain.substring(start, i));
+                start = i + 1;
+            }
+        }
+        segments.push(chain.substring(start));
+
+        let type: string | null = null;
+        for (const [index, segment] of segments.entries()) {
+            const match = /^(\w+)(\(.*?\))?((?:\[.*?\])*)$/.exec(segment);
+            if (!match) {
+                return null;
+            }
+            const [, name, call, indexes] = match;
+            if (index === 0) {
+                type = call ? this.nameCallType(name, offset) : this.nameType(name, offset);
+            } else {
+                // Method call syntax x.f() calls the function f
+                type = call ? this.nameCallType(name, offset) : this.fieldType(type!, name);
+            }
+            let level = 0;
+            for (const char of indexes) {
+                if (char === '[' && level++ === 0) {
+                    type = indexedType(type);
+                } else if (char === ']') {
+                    level--;
+                }
+            }
+            if (!type) {
+                return null;
+            }
+        }
+        return type;
+    }
+
+    /** Type of a name as seen at an offset, for text that did not parse into an expression. */
+    public nameType(name: string, offset: number): string | null {
+        return this.typeAt(this.scopes.lookup(name, offset), name, offset);
+    }
+
+    /** Type a binding is declared with; loop variables without one take the element type of the iterable. */
+    public declaredType(binding: Binding | undefined): string | null {
+        if (!binding) {
+            return null;
+        }
+        switch (binding.kind) {
+            case 'function':
+                return 'function';
+            case 'import':
+                return 'pyobject';
+            case 'loop-variable':
+                if (binding.node.kind === 'ForStatement' && !binding.node.variableType) {
+                    return this.elementType(binding.node.iterable);
+                }
+                break;
+            case 'parameter':
+                if (binding.node.kind === 'Parameter' && binding.node.variadic) {
+                    return binding.node.variadic === 'args' ? 'list' : 'dict';
+                }
+                break;
+            default:
+                break;
+        }
+        const declared = bindingType(binding);
+        return declared ? normalizeType(declared) : null;
+    }
+
+    /** Type of the values produced by iterating an expression. */
+    public elementType(iterable: Expression): string | null {
+        if (iterable.kind === 'RangeExpression') {
+            return 'int';
+        }
+        if (iterable.kind === 'CallExpression' && iterable.callee.kind === 'Identifier' && iterable.callee.name === 'range' &&
+            !this.scopes.bindingOf(iterable.callee)) {
+            return 'int';
+        }
+        const type = this.typeOf(iterable);
+        switch (type && baseType(type)) {
+            case 'str':
+                return 'str';
+            case 'bytes':
+                return 'int';
+            case 'list':
+            case 'set':
+            case 'dict':
+                // Dictionaries iterate over their keys
+                return typeArguments(type!)[0] ?? null;
+            default:
+                return null;
+        }
+    }
+
+    /** Type of an expression, or null when it cannot be determined. */
+    public typeOf(expr: Expression): string | null {
+        if (this.cache.has(expr)) {
+            return this.cache.get(expr)!;
+        }
+        // Guards against cycles while the type is being computed
+        this.cache.set(expr, null);
+        const type = this.compute(expr);
+        this.cache.set(expr, type);
+        return type;
+    }
+
+    private compute(expr: Expression): string | null {
+        switch (expr.kind) {
+            case 'StringLiteral':
+            case 'FString':
+                return 'str';
+            case 'BytesLiteral':
+                return 'bytes';
+            case 'IntLiteral':
+                return 'int';
+            case 'FloatLiteral':
+                return 'float';
+            case 'BoolLiteral':
+                return 'bool';
+            case 'ListLiteral':
+            case 'SetLiteral':
+                return containerType(expr.kind === 'ListLiteral' ? 'list' : 'set',
+                    expr.elements.length > 0 ? [commonType(expr.elements.map(element => this.typeOf(element)))] : []);
+            case 'DictLiteral':
+                return containerType('dict', expr.entries.length > 0 ? [
+                    commonType(expr.entries.map(entry => this.typeOf(entry.key))),
+                    commonType(expr.entries.map(entry => this.typeOf(entry.value)))
+                ] : []);
+            case 'ParenthesizedExpression':
+                return this.typeOf(expr.expression);
+            case 'Identifier':
+                return this.identifierType(expr);
+            case 'UnaryExpression': {
+                if (expr.operator === 'not' || expr.operator === '!') {
+                    return 'bool';
+                }
+                if (expr.operator === '~') {
+                    return 'int';
+                }
+                const operand = this.typeOf(expr.argument);
+                return operand === 'int' || operand === 'float' ? operand : null;
+            }
+            case 'BinaryExpression':
+                return this.binaryType(expr.operator, this.typeOf(expr.left), this.typeOf(expr.right));
+            case 'TernaryExpression': {
+                const consequent = this.typeOf(expr.consequent);
+                const alternate = this.typeOf(expr.alternate);
+                if (consequent && alternate && sameType(consequent, alternate)) {
+                    return consequent;
+                }
+                return numericResult(consequent, alternate);
+            }
+            case 'IndexExpression': {
+                const object = this.typeOf(expr.object);
+                if (expr.index.kind === 'SliceExpression') {
+                    const base = object ? baseType(object) : null;
+                    return base === 'str' || base === 'bytes' || base === 'list' ? object : null;
+                }
+                return indexedType(object);
+            }
+            case 'MemberExpression': {
+                const object = this.typeOf(expr.object);
+                return object ? this.fieldType(object, expr.property.name) : null;
+            }
+            case 'CallExpression':
+                return this.callType(expr);
+            default:
+                return null;
+        }
+    }
+
+    private identifierType(expr: Identifier): string | null {
+        return this.typeAt(this.scopes.bindingOf(expr), expr.name, expr.span.start);
+    }
+
+    // Declared type of a name's binding, or the narrowed type when it is declared `any`; builtin constants have no binding
+    private typeAt(binding: Binding | undefined, name: string, offset: number): string | null {
+        if (!binding) {
+            const constant = builtinConstant(name);
+            return constant ? normalizeType(constant.type) : null;
+        }
+        const declared = this.declaredType(binding);
+        if (declared && declared !== 'any') {
+            return declared;
+        }
+        return this.flowType(binding, offset) ?? declared;
+    }
+
+    /**
+     * Type of the last write that reaches an offset on every path, or null when another write
+     * in a branch, a loop or another function may have replaced it.
+     */
+    private flowType(binding: Binding, offset: number): string | null {
+        const useScope = this.scopes.scopeAt(offset);
+        let reaching: Write | undefined;
+        for (const write of this.writes.get(binding) ?? []) {
+            if (write.node.span.end <= offset) {
+                reaching = write.node.kind === 'Assignment' && write.node.operator !== '=' ? undefined
+                    : this.dominates(write.scope, useScope) ? write : undefined;
+            } else if (this.inSameLoop(write, useScope)) {
+                // A write later in an enclosing loop reaches the use on the next iteration
+                return null;
+            }
+        }
+        return reaching ? this.typeOf(reaching.value) : null;
+    }
+
+    // Whether code in `scope` always runs before code in `inner` once it is reached, without crossing a function boundary
+    private dominates(scope: Scope, inner: Scope): boolean {
+        for (let current: Scope | null = inner; current; current = current.parent) {
+            if (current === scope) {
+                return true;
+            }
+            if (current.kind === 'function') {
+                return false;
+            }
+        }
+        return false;
+    }
+
+    private inSameLoop(write: Write, useScope: Scope): boolean {
+        for (let current: Scope | null = useScope; current && current.kind !== 'function'; current = current.parent) {
+            if (current.kind === 'loop' && current.span.start <= write.node.span.start && write.node.span.end <= current.span.end) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    private binaryType(operator: string, left: string | null, right: string | null): string | null {
+        if (['==', '!=', '<', '>', '<=', '>=', 'in', 'not in', 'and', 'or', '&&', '||'].includes(operator)) {
+            return 'bool';
+        }
+        if (['&', '|', '^'].includes(operator) && left === 'set' && right === 'set') {
+            return 'set';
+        }
+        if (['&', '|', '^', '<<', '>>'].includes(operator)) {
+            return 'int';
+        }
+        if (operator === '/') {
+            return 'float';
+        }
+
+        if (operator === '+' || operator === '*') {
+            // bytes and str do not concatenate without a decode or encode
+            if ((left === 'bytes' && right === 'str') || (left === 'str' && right === 'bytes')) {
+                return null;
+            }
+            // String concatenation and repetition
+            if (left === 'str' || right === 'str') {
+                return 'str';
+            }
+            if (left && baseType(left) === 'list' && (operator === '*' || (right && isAssignable(left, right)))) {
+                return left;
+            }
+            if (left === 'bytes' && right === 'bytes' && operator === '+') {
+                return 'bytes';
+            }
+        }
+        // String formatting
+        if (operator === '%' && left === 'str') {
+            return 'str';
+        }
+        return numericResult(left, right);
+    }
+
+    private callType(expr: CallExpression): string | null {
+        const { callee } = expr;
+        if (callee.kind === 'Identifier') {
+            const binding = this.scopes.bindingOf(callee);
+            if (binding?.kind === 'function') {
+                return this.returnType(binding);
+            }
+            if (binding?.kind === 'struct') {
+                return binding.name;
+            }
+            if (binding) {
+                return null;
+            }
+
+            const returns = builtinReturnType(callee.name);
+            if (callee.name === 'pop' && expr.args.length > 0) {
+                const list = this.typeOf(expr.args[0]);
+                if (list && baseType(list) === 'list') {
+                    return typeArguments(list)[0] ?? null;
+                }
+            }
+            if (returns === 'any' && numericBuiltins.includes(callee.name) && expr.args.length > 0) {
+                return expr.args.map(arg => this.typeOf(arg)).reduce((a, b) => numericResult(a, b));
+            }
+            if (returns) {
+                return normalizeType(returns);
+            }
+            return this.struct(callee.name) ? callee.name : null;
+        }
+
+        if (callee.kind === 'MemberExpression') {
+            // Method call syntax x.f() calls f(x)
+            const binding = this.scopes.bindingOf(callee.property);
+            if (binding?.kind === 'function') {
+                return this.returnType(binding);
+            }
+            const object = this.typeOf(callee.object);
+            if (object === 'pyobject' || object === 'any') {
+                return null;
+            }
+            // pop() returns an element of the list
+            if (object && baseType(object) === 'list' && callee.property.name === 'pop') {
+                return typeArguments(object)[0] ?? null;
+            }
+            const method = object ? builtinMethod(baseType(object), callee.property.name) : undefined;
+            // A method of another receiver, like `upper` on bytes, returns that object's own kind
+            const other = builtinFunction(callee.property.name)?.receiver;
+            if (!method && object && other && other !== baseType(object)) {
+                return null;
+            }
+            const returns = method ? method.returnType : builtinReturnType(callee.property.name);
+            return returns ? normalizeType(returns) : null;
+        }
+        return null;
+    }
+
+    private returnType(binding: Binding): string | null {
+        const returnType = (binding.node as FunctionDeclaration).returnType;
+        return returnType ? normalizeType(typeRefText(returnType)) : null;
+    }
+}
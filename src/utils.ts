@@ -1,14 +1,26 @@
-import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Span } from './ast';
 
 export interface FrscriptConfig {
     formatting: {
         indentSize: number;
         insertSpaces: boolean;
     };
+    typeChecking: {
+        // Implicit conversions between int and float
+        numericCoercion: 'allow' | 'warn' | 'error';
+    };
+    diagnostics: {
+        // 'workspace' also checks .fr files that are not open
+        scope: 'open' | 'workspace';
+    };
     linting: {
         enabled: boolean;
         unusedVariables: 'error' | 'warning' | 'hint';
         unusedImports: 'error' | 'warning' | 'hint';
+        // Calls to deprecated builtins and functions
+        deprecated: 'error' | 'warning' | 'info' | 'hint';
     };
     metrics: {
         enabled: boolean;
@@ -30,18 +42,78 @@ export interface FrscriptConfig {
     };
 }
 
-export function getConfig(): FrscriptConfig {
-    const config = vscode.workspace.getConfiguration('frscript');
-    
+// Settings lookup by dotted key, e.g. `formatting.indentSize`
+export interface ConfigSection {
+    get<T>(key: string, defaultValue: T): T;
+}
+
+// Line-oriented view of a document; editor documents satisfy it directly, plain text goes through textLines()
+export interface TextLines {
+    readonly lineCount: number;
+    lineAt(line: number): { text: string };
+}
+
+// Lines plus identity, for per-document caches
+export interface LineDocument extends TextLines {
+    uri: { toString(): string };
+}
+
+export interface LinePosition {
+    line: number;
+    character: number;
+}
+
+export function spanToRange(document: { positionAt(offset: number): LinePosition }, span: Span): { start: LinePosition; end: LinePosition } {
+    return { start: document.positionAt(span.start), end: document.positionAt(span.end) };
+}
+
+export function textLines(text: string): TextLines {
+    const lines = text.split(/\r?\n/);
+    return {
+        lineCount: lines.length,
+        lineAt: (line: number) => ({ text: lines[line] ?? '' })
+    };
+}
+
+// Wrap a plain settings object (as sent by language clients) so dotted keys resolve into nested objects
+export function configSection(settings: unknown): ConfigSection {
+    return {
+        get<T>(key: string, defaultValue: T): T {
+            // Flat keys ('linting.enabled') win over nested objects ({ linting: { enabled } })
+            let value = isRecord(settings) ? settings[key] : undefined;
+            if (value === undefined) {
+                value = settings;
+                for (const part of key.split('.')) {
+                    value = isRecord(value) ? value[part] : undefined;
+                }
+            }
+            // Values of the wrong type fall back to the default like missing ones
+            return typeof value === typeof defaultValue && value !== null ? value as T : defaultValue;
+        }
+    };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function readConfig(config: ConfigSection): FrscriptConfig {
     return {
         formatting: {
             indentSize: config.get('formatting.indentSize', 4),
             insertSpaces: config.get('formatting.insertSpaces', true),
         },
+        typeChecking: {
+            numericCoercion: config.get('typeChecking.numericCoercion', 'warn'),
+        },
+        diagnostics: {
+            scope: config.get('diagnostics.scope', 'open'),
+        },
         linting: {
             enabled: config.get('linting.enabled', true),
             unusedVariables: config.get('linting.unusedVariables', 'warning'),
             unusedImports: config.get('linting.unusedImports', 'warning'),
+            deprecated: config.get('linting.deprecated', 'warning'),
         },
         metrics: {
             enabled: config.get('metrics.enabled', true),
@@ -82,7 +154,7 @@ export function escapeRegExp(text: string): string {
     return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
 
-export function isInsideString(document: vscode.TextDocument, position: vscode.Position): boolean {
+export function isInsideString(document: TextLines, position: LinePosition): boolean {
     const line = document.lineAt(position.line).text;
     const charsBefore = line.substring(0, position.character);
     
@@ -146,14 +218,14 @@ export function isInsideString(document: vscode.TextDocument, position: vscode.P
     return (inDoubleQuote || inSingleQuote) && !inFStringBrace;
 }
 
-export function isInsideComment(document: vscode.TextDocument, position: vscode.Position): boolean {
+export function isInsideComment(document: TextLines, position: LinePosition): boolean {
     const line = document.lineAt(position.line).text;
     const charsBefore = line.substring(0, position.character);
     
     return charsBefore.includes('//');
 }
 
-export function extractPythonImports(document: vscode.TextDocument): Map<string, { module: string; alias?: string; line: number }> {
+export function extractPythonImports(document: TextLines): Map<string, { module: string; alias?: string; line: number }> {
     const imports = new Map<string, { module: string; alias?: string; line: number }>();
     
     for (let i = 0; i < document.lineCount; i++) {
@@ -182,14 +254,14 @@ export function extractPythonImports(document: vscode.TextDocument): Map<string,
     return imports;
 }
 
-export function calculateComplexity(document: vscode.TextDocument, startLine: number, endLine: number): number {
+export function calculateComplexity(document: TextLines, startLine: number, endLine: number): number {
     let complexity = 1; // Base complexity
     
     for (let i = startLine; i <= endLine; i++) {
         const line = document.lineAt(i).text;
         
         // Skip comments
-        if (isInsideComment(document, new vscode.Position(i, 0))) {
+        if (isInsideComment(document, { line: i, character: 0 })) {
             continue;
         }
         
@@ -288,7 +360,7 @@ function removeStringsFromLine(line: string): string {
     return result;
 }
 
-export function calculateNestingDepth(document: vscode.TextDocument, startLine: number, endLine: number): number {
+export function calculateNestingDepth(document: TextLines, startLine: number, endLine: number): number {
     let maxDepth = 0;
     let currentDepth = 0;
     
@@ -306,7 +378,7 @@ export function calculateNestingDepth(document: vscode.TextDocument, startLine:
     return maxDepth;
 }
 
-export function findFunctionBody(document: vscode.TextDocument, functionLine: number): { start: number; end: number } | null {
+export function findFunctionBody(document: TextLines, functionLine: number): { start: number; end: number } | null {
     let braceCount = 0;
     let foundStart = false;
     let startLine = functionLine;
@@ -351,3 +423,47 @@ export function createIndent(level: number, useSpaces: boolean = true, indentSiz
     }
     return '\t'.repeat(level);
 }
+
+// Every .fr file below a directory, skipping dependencies and hidden folders
+export function findFrFiles(dir: string): string[] {
+    const files: string[] = [];
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+            if (entry.name !== 'node_modules' && !entry.name.startsWith('.')) {
+                files.push(...findFrFiles(fullPath));
+            }
+        } else if (entry.isFile() && entry.name.endsWith('.fr')) {
+            files.push(fullPath);
+        }
+    }
+    return files;
+}
+
+// Translate a glob into a regular expression over '/'-separated paths
+export function globToRegExp(glob: string): RegExp {
+    let source = '';
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === '*' && glob[i + 1] === '*') {
+            const slash = glob[i + 2] === '/';
+            source += slash ? '(?:.*/)?' : '.*';
+            i += slash ? 2 : 1;
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '{') {
+            const close = glob.indexOf('}', i);
+            if (close < 0) {
+                source += '\\{';
+                continue;
+            }
+            source += '(?:' + glob.substring(i + 1, close).split(',').map(part => part.replace(/[.+^$()|[\]\\]/g, '\\$&')).join('|') + ')';
+            i = close;
+        } else {
+            source += char.replace(/[.+^$()|[\]\\{}]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`);
+}
@@ -0,0 +1,260 @@
+// Problems of the .fr files that are not open, for `frscript.diagnostics.scope: "workspace"`.
+// Closed files are checked one at a time with a pause in between so requests are not held up,
+// and when a function or struct signature changes, the files that call it are found in batches
+// the same way and checked again. Nothing is looked up in other files outside workspace scope.
+
+import { CancellationToken, CancellationTokenSource, Diagnostic } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { DocumentAnalysis } from './analysisCache';
+import { builtinFunction } from './builtins';
+import { docDeprecation } from './deprecations';
+import { SymbolInfo } from './symbols';
+import { WorkspaceIndex } from './workspaceIndex';
+
+// Top-level functions and structs of a file, which other files can call
+export function sharedSymbols(analysis: DocumentAnalysis): SymbolInfo[] {
+    const declarations = new Set(analysis.scopes.root.bindings
+        .filter(binding => binding.kind === 'function' || binding.kind === 'struct')
+        .map(binding => binding.declaration.span.start));
+    return analysis.symbols.filter(symbol =>
+        (symbol.type === 'function' || symbol.type === 'struct') && declarations.has(symbol.nameSpan.start));
+}
+
+// The part of a declaration its callers are checked against
+function signature(symbol: SymbolInfo): string {
+    if (symbol.type === 'struct') {
+        return `struct(${(symbol.fields ?? []).map(field => `${field.name}: ${field.type}`).join(', ')})`;
+    }
+    const params = (symbol.parameters ?? []).map(param => param.type + (param.optional ? '?' : ''));
+    const deprecation = docDeprecation(symbol.documentation);
+    const deprecated = deprecation ? ` @deprecated ${deprecation.message ?? ''} ${deprecation.replacement ?? ''}` : '';
+    return `${symbol.returnType ?? ''}(${params.join(', ')})${deprecated}`;
+}
+
+export class WorkspaceDiagnostics {
+    private enabled = false;
+    // Closed files waiting for a check, oldest first
+    private queue = new Set<string>();
+    // Closed files whose diagnostics are in the Problems panel
+    private published = new Set<string>();
+    // Signatures of the shared names of each file, as callers were last checked against them
+    private signatures = new Map<string, Map<string, string>>();
+    private symbolsByName?: Map<string, { uri: string, symbol: SymbolInfo }[]>;
+    // Shared names whose signature changed, and the files still to search for uses of them
+    private changedNames = new Set<string>();
+    private dependentsQueue: string[] = [];
+    private cancellation = new CancellationTokenSource();
+    private timer?: NodeJS.Timeout;
+    private running = false;
+
+    // Changes whenever a shared signature does, so results computed against the old one are not reused
+    public generation = 0;
+
+    constructor(
+        private index: WorkspaceIndex,
+        private isOpen: (uri: string) => boolean,
+        private check: (document: TextDocument, token: CancellationToken) => Promise<Diagnostic[]>,
+        private publish: (uri: string, diagnostics: Diagnostic[]) => void,
+        // Open files calling a changed declaration
+        private recheckOpen: (uri: string) => void,
+        private pause: number = 20,
+        // Files searched for uses of changed names between two pauses
+        private batchSize: number = 20
+    ) {}
+
+    get isEnabled(): boolean {
+        return this.enabled;
+    }
+
+    public setEnabled(enabled: boolean) {
+        if (enabled === this.enabled) {
+            return;
+        }
+        this.enabled = enabled;
+        if (enabled) {
+            this.checkAll();
+            return;
+        }
+        this.stop();
+        this.published.forEach(uri => this.publish(uri, []));
+        this.published.clear();
+        // Open files stop using the declarations of other files
+        this.signatures.clear();
+        this.symbolsByName = undefined;
+        this.generation++;
+    }
+
+    /** Check every closed file again, e.g. after the settings changed. */
+    public checkAll() {
+        this.index.uris().forEach(uri => this.schedule(uri));
+    }
+
+    /** A function or struct another file declares, for a call `uri` does not resolve itself. */
+    public symbol(name: string, uri: string): SymbolInfo | undefined {
+        if (!this.enabled || builtinFunction(name)) {
+            return undefined;
+        }
+        if (!this.symbolsByName) {
+            this.symbolsByName = new Map();
+            for (const other of this.index.uris()) {
+                const analysis = this.index.analysis(other);
+                const symbols = analysis ? sharedSymbols(analysis) : [];
+                this.signatures.set(other, new Map(symbols.map(symbol => [symbol.name, signature(symbol)])));
+                for (const symbol of symbols) {
+                    const entries = this.symbolsByName.get(symbol.name) ?? [];
+                    entries.push({ uri: other, symbol });
+                    this.symbolsByName.set(symbol.name, entries);
+                }
+            }
+        }
+        return this.symbolsByName.get(name)?.find(entry => entry.uri !== uri)?.symbol;
+    }
+
+    /** An open document changed; callers are checked again when its signatures did. */
+    public documentChanged(uri: string, analysis: DocumentAnalysis) {
+        if (this.enabled) {
+            this.updateSignatures(uri, analysis);
+        }
+    }
+
+    /** A file was created, changed or deleted on disk. */
+    public fileChanged(uri: string, deleted: boolean) {
+        if (!this.enabled) {
+            return;
+        }
+        if (deleted) {
+            this.queue.delete(uri);
+            if (this.published.delete(uri)) {
+                this.publish(uri, []);
+            }
+            this.updateSignatures(uri, undefined);
+        } else if (!this.isOpen(uri)) {
+            this.updateSignatures(uri, this.index.analysis(uri));
+            this.schedule(uri);
+        }
+    }
+
+    /** The editor publishes the diagnostics of an open file. */
+    public opened(uri: string) {
+        this.queue.delete(uri);
+        this.published.delete(uri);
+    }
+
+    /** Whether the closed file stays in the Problems panel; unsaved edits are gone, so it is read from disk. */
+    public closed(uri: string): boolean {
+        if (!this.enabled || !this.index.uris().includes(uri)) {
+            return false;
+        }
+        this.updateSignatures(uri, this.index.analysis(uri));
+        this.schedule(uri);
+        return true;
+    }
+
+    private updateSignatures(uri: string, analysis: DocumentAnalysis | undefined) {
+        const current = new Map((analysis ? sharedSymbols(analysis) : []).map(symbol => [symbol.name, signature(symbol)]));
+        const previous = this.signatures.get(uri);
+        // Nothing was checked against declarations read before this one
+        if (!previous && !this.symbolsByName) {
+            if (analysis) {
+                this.signatures.set(uri, current);
+            }
+            return;
+        }
+        if (analysis) {
+            this.signatures.set(uri, current);
+        } else {
+            this.signatures.delete(uri);
+        }
+
+        const changed = [...new Set([...previous?.keys() ?? [], ...current.keys()])]
+            .filter(name => previous?.get(name) !== current.get(name));
+        if (changed.length === 0) {
+            return;
+        }
+        this.generation++;
+        this.symbolsByName = undefined;
+
+        // Every file is searched again, as the new names may be used where the earlier ones were not
+        changed.forEach(name => this.changedNames.add(name));
+        this.dependentsQueue = [...this.index.uris()];
+        this.resume();
+    }
+
+    // Check again the next batch of files that use a changed name
+    private findDependents(token: CancellationToken) {
+        const batch = this.dependentsQueue.splice(0, this.batchSize);
+        const names = [...this.changedNames];
+        if (this.dependentsQueue.length === 0) {
+            this.changedNames.clear();
+        }
+        for (const other of batch) {
+            if (token.isCancellationRequested) {
+                return;
+            }
+            const dependent = this.index.analysis(other);
+            if (!dependent || !names.some(name => dependent.scopes.unresolvedUses(name, false).length > 0)) {
+                continue;
+            }
+            if (this.isOpen(other)) {
+                this.recheckOpen(other);
+            } else {
+                this.schedule(other);
+            }
+        }
+    }
+
+    private schedule(uri: string) {
+        if (!this.enabled || this.isOpen(uri)) {
+            return;
+        }
+        this.queue.add(uri);
+        this.resume();
+    }
+
+    private resume() {
+        if (!this.running && !this.timer && (this.queue.size > 0 || this.dependentsQueue.length > 0)) {
+            this.timer = setTimeout(() => this.checkNext(), this.pause);
+        }
+    }
+
+    private async checkNext() {
+        this.timer = undefined;
+        if (this.dependentsQueue.length > 0) {
+            this.findDependents(this.cancellation.token);
+            this.resume();
+            return;
+        }
+        const [uri] = this.queue;
+        this.queue.delete(uri);
+
+        const analysis = this.index.analysis(uri);
+        if (analysis && !this.isOpen(uri)) {
+            const { token } = this.cancellation;
+            const document = TextDocument.create(uri, 'frscript', analysis.version, analysis.text);
+            this.running = true;
+            try {
+                const diagnostics = await this.check(document, token);
+                if (!token.isCancellationRequested && !this.isOpen(uri)) {
+                    this.publish(uri, diagnostics);
+                    this.published.add(uri);
+                }
+            } catch {
+                // A file that cannot be checked keeps its previous diagnostics
+            } finally {
+                this.running = false;
+            }
+        }
+        this.resume();
+    }
+
+    private stop() {
+        this.cancellation.cancel();
+        this.cancellation.dispose();
+        this.cancellation = new CancellationTokenSource();
+        this.queue.clear();
+        this.dependentsQueue = [];
+        this.changedNames.clear();
+        clearTimeout(this.timer);
+        this.timer = undefined;
+    }
+}
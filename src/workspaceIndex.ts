@@ -0,0 +1,134 @@
+// Declarations shared between the .fr files of a workspace.
+// Top-level functions, structs and globals of one file can be used from every other file,
+// so definition and references look them up here when the current file does not declare them.
+
+import * as fs from 'fs';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { DocumentAnalysis } from './analysisCache';
+import { StructDeclaration } from './ast';
+import { Binding, NameNode } from './scopes';
+import { findFrFiles } from './utils';
+
+export interface WorkspaceDeclaration {
+    uri: string;
+    analysis: DocumentAnalysis;
+    binding: Binding;
+}
+
+export interface WorkspaceOccurrences {
+    uri: string;
+    analysis: DocumentAnalysis;
+    identifiers: NameNode[];
+}
+
+// Whether a binding is visible to other files of the workspace
+export function isWorkspaceBinding(binding: Binding): boolean {
+    return binding.scope.parent === null &&
+        (binding.kind === 'function' || binding.kind === 'struct' || binding.kind === 'variable');
+}
+
+export class WorkspaceIndex {
+    private fileUris?: string[];
+    // Analyses of files that are not open, reused until the file changes on disk
+    private closed = new Map<string, { mtimeMs: number, analysis: DocumentAnalysis }>();
+
+    constructor(
+        private roots: string[],
+        private openAnalysis: (uri: string) => DocumentAnalysis | undefined,
+        private resolveStruct?: (uri: string, name: string) => StructDeclaration | undefined
+    ) {}
+
+    public setRoots(roots: string[]) {
+        this.roots = roots;
+        this.fileUris = undefined;
+    }
+
+    /** Every .fr file below the workspace roots. */
+    public uris(): string[] {
+        if (!this.fileUris) {
+            this.fileUris = [];
+            for (const root of this.roots) {
+                try {
+                    this.fileUris.push(...findFrFiles(root).map(file => pathToFileURL(file).toString()));
+                } catch {
+                    // Unreadable roots contribute no files
+                }
+            }
+        }
+        return this.fileUris;
+    }
+
+    /** Forget cached data after a file is created, changed or deleted on disk. */
+    public fileChanged(uri: string, created: boolean, deleted: boolean) {
+        this.closed.delete(uri);
+        if (created || deleted) {
+            this.fileUris = undefined;
+        }
+    }
+
+    public analysis(uri: string): DocumentAnalysis | undefined {
+        const open = this.openAnalysis(uri);
+        if (open) {
+            return open;
+        }
+
+        try {
+            const file = fileURLToPath(uri);
+            const { mtimeMs } = fs.statSync(file);
+            const cached = this.closed.get(uri);
+            if (cached && cached.mtimeMs === mtimeMs) {
+                return cached.analysis;
+            }
+            const resolve = this.resolveStruct && ((name: string) => this.resolveStruct!(uri, name));
+            const analysis = new DocumentAnalysis(uri, 0, fs.readFileSync(file, 'utf8'), resolve);
+            this.closed.set(uri, { mtimeMs, analysis });
+            return analysis;
+        } catch {
+            return undefined;
+        }
+    }
+
+    /** Top-level declarations of a name in any workspace file. */
+    public declarations(name: string, uris: string[] = this.uris()): WorkspaceDeclaration[] {
+        const declarations: WorkspaceDeclaration[] = [];
+        for (const uri of uris) {
+            const analysis = this.analysis(uri);
+            if (!analysis) {
+                continue;
+            }
+            for (const binding of analysis.scopes.root.bindings) {
+                if (binding.name === name && isWorkspaceBinding(binding)) {
+                    declarations.push({ uri, analysis, binding });
+                }
+            }
+        }
+        return declarations;
+    }
+
+    /**
+     * Occurrences of a shared name per file: its top-level declarations, their uses,
+     * and uses in files that rely on another file's declaration.
+     */
+    public references(name: string, uris: string[] = this.uris()): WorkspaceOccurrences[] {
+        const results: WorkspaceOccurrences[] = [];
+        for (const uri of uris) {
+            const analysis = this.analysis(uri);
+            if (!analysis) {
+                continue;
+            }
+
+            const { scopes } = analysis;
+            const identifiers = scopes.unresolvedUses(name);
+            for (const binding of scopes.root.bindings) {
+                if (binding.name === name && isWorkspaceBinding(binding)) {
+                    identifiers.push(binding.declaration, ...binding.references);
+                }
+            }
+
+            if (identifiers.length > 0) {
+                results.push({ uri, analysis, identifiers: identifiers.sort((a, b) => a.span.start - b.span.start) });
+            }
+        }
+        return results;
+    }
+}
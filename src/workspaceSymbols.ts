@@ -1,39 +1,93 @@
 import * as vscode from 'vscode';
+import { parse } from './parser';
+import { collectSymbols } from './symbols';
+import { debounce, escapeRegExp } from './utils';
 
 export interface WorkspaceSymbol {
     name: string;
     type: 'function' | 'struct' | 'variable';
-    uri: vscode.Uri;
     line: number;
+    character: number;
     containerName?: string;
 }
 
-export class WorkspaceSymbolProvider implements vscode.WorkspaceSymbolProvider {
-    private symbolCache: Map<string, WorkspaceSymbol[]> = new Map();
+interface IndexedFile {
+    // Modification time the symbols were read at; 0 while unsaved editor changes are indexed
+    mtime: number;
+    symbols: WorkspaceSymbol[];
+}
+
+interface PersistedIndex {
+    version: number;
+    files: Record<string, IndexedFile>;
+}
+
+// Bump when the stored symbol shape changes so old indexes are rebuilt
+const INDEX_VERSION = 1;
+
+function extractSymbols(text: string): WorkspaceSymbol[] {
+    const symbols = collectSymbols(parse(text));
+    const functions = symbols.filter(symbol => symbol.type === 'function');
+
+    return symbols.map(symbol => {
+        // Innermost function whose body contains the symbol
+        const container = functions
+            .filter(func => func !== symbol && func.span.start <= symbol.span.start && symbol.span.end <= func.span.end)
+            .pop();
+        return {
+            name: symbol.name,
+            type: symbol.type,
+            line: symbol.line,
+            character: symbol.character,
+            containerName: container?.name
+        };
+    });
+}
+
+/**
+ * Symbols of every .fr file, persisted in the extension's storage so a new session only re-reads
+ * files that changed since the last one. Searches answer from the loaded index while a background
+ * refresh catches up with the files on disk, and a file watcher keeps it current while running.
+ */
+export class WorkspaceSymbolProvider implements vscode.WorkspaceSymbolProvider, vscode.Disposable {
+    private files = new Map<string, IndexedFile>();
+    private loaded: Promise<void>;
+    private refreshed: Promise<void>;
+    private indexFile?: vscode.Uri;
+    // Writes run one after another so a later one never interleaves with an earlier one
+    private saving: Promise<void> = Promise.resolve();
+    private saveSoon = debounce(() => this.save(), 2000);
+
+    constructor(storageUri: vscode.Uri | undefined) {
+        this.indexFile = storageUri && vscode.Uri.joinPath(storageUri, 'symbol-index.json');
+        this.loaded = this.load();
+        this.refreshed = this.loaded.then(() => this.refresh()).catch(() => undefined);
+    }
 
     public async provideWorkspaceSymbols(
         query: string,
         token: vscode.CancellationToken
     ): Promise<vscode.SymbolInformation[]> {
+        await this.loaded;
+        // Without a stored index there is nothing to answer from until the first pass is done
+        if (this.files.size === 0) {
+            await this.refreshed;
+        }
         const symbols: vscode.SymbolInformation[] = [];
-        
-        // Find all .fr files in workspace
-        const files = await vscode.workspace.findFiles('**/*.fr', '**/node_modules/**');
 
-        for (const file of files) {
+        for (const [key, file] of this.files) {
             if (token.isCancellationRequested) {
                 break;
             }
+            const uri = vscode.Uri.parse(key);
 
-            const fileSymbols = await this.getFileSymbols(file);
-            
-            fileSymbols
+            file.symbols
                 .filter(symbol => this.matchesQuery(symbol.name, query))
                 .forEach(symbol => {
                     const kind = this.getSymbolKind(symbol.type);
                     const location = new vscode.Location(
-                        symbol.uri,
-                        new vscode.Position(symbol.line, 0)
+                        uri,
+                        new vscode.Range(symbol.line, symbol.character, symbol.line, symbol.character + symbol.name.length)
                     );
 
                     symbols.push(
@@ -50,56 +104,98 @@ export class WorkspaceSymbolProvider implements vscode.WorkspaceSymbolProvider {
         return symbols;
     }
 
-    private async getFileSymbols(uri: vscode.Uri): Promise<WorkspaceSymbol[]> {
-        const cacheKey = uri.toString();
-        
-        if (this.symbolCache.has(cacheKey)) {
-            return this.symbolCache.get(cacheKey)!;
+    /** Re-read one file from disk after it was created or changed. */
+    public async updateFile(uri: vscode.Uri) {
+        try {
+            const stat = await vscode.workspace.fs.stat(uri);
+            const content = await vscode.workspace.fs.readFile(uri);
+            this.files.set(uri.toString(), { mtime: stat.mtime, symbols: extractSymbols(Buffer.from(content).toString('utf8')) });
+            this.saveSoon();
+        } catch {
+            this.removeFile(uri);
         }
+    }
 
-        const symbols: WorkspaceSymbol[] = [];
-        const document = await vscode.workspace.openTextDocument(uri);
+    /** Index unsaved editor contents; the next save re-reads the file from disk. */
+    public updateDocument(document: vscode.TextDocument) {
+        this.files.set(document.uri.toString(), { mtime: 0, symbols: extractSymbols(document.getText()) });
+    }
 
-        for (let i = 0; i < document.lineCount; i++) {
-            const line = document.lineAt(i);
-            const { text } = line;
+    public removeFile(uri: vscode.Uri) {
+        if (this.files.delete(uri.toString())) {
+            this.saveSoon();
+        }
+    }
 
-            // Match function declarations
-            const funcMatch = text.match(/^\s*(void|int|float|string|str|bool|list|dict|set|bytes|any|pyobject|pyobj)\s+(\w+)\s*\(/);
-            if (funcMatch) {
-                symbols.push({
-                    name: funcMatch[2],
-                    type: 'function',
-                    uri,
-                    line: i
-                });
+    // Bring the persisted index in line with the files on disk
+    private async refresh() {
+        const uris = await vscode.workspace.findFiles('**/*.fr', '**/node_modules/**');
+        const present = new Set(uris.map(uri => uri.toString()));
+        let changed = false;
+
+        for (const key of [...this.files.keys()]) {
+            if (!present.has(key)) {
+                this.files.delete(key);
+                changed = true;
             }
+        }
 
-            // Match struct declarations
-            const structMatch = text.match(/^\s*struct\s+(\w+)\s*\{/);
-            if (structMatch) {
-                symbols.push({
-                    name: structMatch[1],
-                    type: 'struct',
-                    uri,
-                    line: i
-                });
+        for (const uri of uris) {
+            const indexed = this.files.get(uri.toString());
+            try {
+                const stat = await vscode.workspace.fs.stat(uri);
+                if (indexed && indexed.mtime === stat.mtime) {
+                    continue;
+                }
+            } catch {
+                continue;
             }
+            await this.updateFile(uri);
+            changed = true;
+        }
 
-            // Match variable declarations
-            const varMatch = text.match(/^\s*(int|float|str|bool|list|dict|any|pyobject)\s+(\w+)\s*=/);
-            if (varMatch) {
-                symbols.push({
-                    name: varMatch[2],
-                    type: 'variable',
-                    uri,
-                    line: i
-                });
+        if (changed) {
+            this.saveSoon();
+        }
+    }
+
+    private async load() {
+        if (!this.indexFile) {
+            return;
+        }
+        try {
+            const index: PersistedIndex = JSON.parse(Buffer.from(await vscode.workspace.fs.readFile(this.indexFile)).toString('utf8'));
+            if (index.version === INDEX_VERSION) {
+                this.files = new Map(Object.entries(index.files));
             }
+        } catch {
+            // No index yet, or an unreadable one: rebuild from scratch
         }
+    }
 
-        this.symbolCache.set(cacheKey, symbols);
-        return symbols;
+    /** Write the index to storage, after any write already in progress. */
+    public save(): Promise<void> {
+        this.saving = this.saving.then(() => this.write());
+        return this.saving;
+    }
+
+    private async write() {
+        if (!this.indexFile) {
+            return;
+        }
+        const index: PersistedIndex = { version: INDEX_VERSION, files: {} };
+        for (const [key, file] of this.files) {
+            // Unsaved contents are not persisted; the file is re-read next session
+            if (file.mtime !== 0) {
+                index.files[key] = file;
+            }
+        }
+        try {
+            await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(this.indexFile, '..'));
+            await vscode.workspace.fs.writeFile(this.indexFile, Buffer.from(JSON.stringify(index)));
+        } catch {
+            // The index is only a cache; the next session rebuilds it
+        }
     }
 
     private matchesQuery(name: string, query: string): boolean {
@@ -126,7 +222,7 @@ export class WorkspaceSymbolProvider implements vscode.WorkspaceSymbolProvider {
         }
 
         // Camel case match (e.g., "gUD" matches "getUserData")
-        const camelPattern = query.split('').join('.*');
+        const camelPattern = query.split('').map(escapeRegExp).join('.*');
         const regex = new RegExp(camelPattern, 'i');
         if (regex.test(name)) {
             return true;
@@ -144,36 +240,33 @@ export class WorkspaceSymbolProvider implements vscode.WorkspaceSymbolProvider {
         }
     }
 
-    public clearCache(uri?: vscode.Uri) {
-        if (uri) {
-            this.symbolCache.delete(uri.toString());
-        } else {
-            this.symbolCache.clear();
-        }
+    public dispose(): Promise<void> {
+        return this.save();
     }
 }
 
-export function registerWorkspaceSymbolProvider(context: vscode.ExtensionContext): void {
-    const provider = new WorkspaceSymbolProvider();
+export function registerWorkspaceSymbolProvider(context: vscode.ExtensionContext): WorkspaceSymbolProvider {
+    const provider = new WorkspaceSymbolProvider(context.storageUri ?? context.globalStorageUri);
+    const watcher = vscode.workspace.createFileSystemWatcher('**/*.fr');
 
     context.subscriptions.push(
-        vscode.languages.registerWorkspaceSymbolProvider(provider)
+        provider,
+        watcher,
+        vscode.languages.registerWorkspaceSymbolProvider(provider),
+        watcher.onDidCreate(uri => provider.updateFile(uri)),
+        watcher.onDidChange(uri => provider.updateFile(uri)),
+        watcher.onDidDelete(uri => provider.removeFile(uri))
     );
 
-    // Clear cache when files change
+    // Unsaved edits are searchable right away
     context.subscriptions.push(
         vscode.workspace.onDidChangeTextDocument(e => {
-            if (e.document.languageId === 'frscript') {
-                provider.clearCache(e.document.uri);
+            if (e.document.languageId === 'frscript' && e.document.uri.scheme === 'file') {
+                provider.updateDocument(e.document);
             }
         })
     );
-
-    context.subscriptions.push(
-        vscode.workspace.onDidDeleteFiles(e => {
-            e.files.forEach(uri => provider.clearCache(uri));
-        })
-    );
+    return provider;
 }
 
 export function createFindSymbolCommand(): vscode.Disposable {